@@ -15,12 +15,58 @@ export type {
   ContentInput,
   ContentFormat,
   RewriteResult,
+  VariantOutcome,
+  UsageEntry,
+  UsageTotals,
+  UsageBreakdown,
+  UsageRecord,
+  CacheStore,
+  HtmlStructure,
+  StructureCheck,
+  StructureIssue,
+  StructureReport,
+  StructurePolicy,
+  LinkReport,
+  ProtectedLink,
+  RewritePlaceholders,
+  TermReport,
+  Fact,
+  FactChange,
+  FactKind,
+  FactPolicy,
+  FactReport,
+  FrontMatter,
+  FrontMatterOptions,
   ProviderConfig,
   ProviderType,
+  RewriteProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionUsage,
+  JsonSchemaFormat,
+  ChatMessage,
+  FailoverOptions,
+  FailoverTrigger,
+  FailoverEvent,
+  ProviderHealth,
+  RetryPolicy,
+  RetryEvent,
+  RateLimiter,
+  RateLimiterOptions,
   RewriteProgress,
   ProgressCallback,
   StreamingResult,
   StreamingCallback,
+  StreamingEvent,
+  // Batch types
+  BatchInput,
+  BatchRewriteOptions,
+  BatchJob,
+  BatchJobItem,
+  BatchState,
+  BatchStatus,
+  BatchWaitOptions,
+  BatchItemResult,
 } from "./types.js";
 
 // Errors
@@ -29,6 +75,7 @@ export {
   ProviderError,
   ValidationError,
   RateLimitError,
+  BudgetExceededError,
 } from "./types.js";
 
 // Constants (useful for UI)
@@ -41,6 +88,28 @@ export {
   type PromptTemplateKey,
 } from "./constants.js";
 
+// Tokenizer
+export {
+  countTokens,
+  getEncodingForModel,
+  type TokenizerEncoding,
+} from "./tokenizer.js";
+
+// Model registry
+export {
+  registerModel,
+  unregisterModel,
+  getModelInfo,
+  isKnownModel,
+  listModels,
+  setUnknownModelPolicy,
+  DEFAULT_MODEL_INFO,
+  type ModelInfo,
+  type ModelPricing,
+  type UnknownModelPolicy,
+  type UnknownModelPolicyOptions,
+} from "./models.js";
+
 // Utilities (for UI helpers)
 export {
   detectFormat,
@@ -50,12 +119,54 @@ export {
   type UniquenessResult,
 } from "./utils.js";
 
-// Cost estimation
-export { estimateCost, calculateCost } from "./providers/openai.js";
+// Cost estimation and token budgets
+export {
+  estimateCost,
+  calculateCost,
+  getTokenBudget,
+  isLargeContent,
+  summarizeUsage,
+  type TokenBudget,
+} from "./providers/pipeline.js";
+
+// Client-side rate limiting (share one limiter between instances)
+export { createRateLimiter } from "./providers/rate-limiter.js";
+
+// Completion cache (in-memory; implement CacheStore for other backends)
+export {
+  createMemoryCache,
+  type MemoryCache,
+  type MemoryCacheOptions,
+} from "./cache.js";
+
+// HTML structure check
+export { analyzeHtmlStructure, compareHtmlStructure } from "./structure.js";
+
+// Link protection
+export {
+  compareLinks,
+  compareProtectedLinks,
+  protectLinks,
+  restoreLinks,
+  type ProtectedContent,
+} from "./links.js";
+
+// Protected terms
+export { compareTerms, protectTerms, restoreTerms } from "./terms.js";
+
+// Fact check
+export { compareFacts, extractFacts } from "./facts.js";
+
+// Markdown output
+export { ensureMarkdown, htmlToMarkdown } from "./markdown.js";
+
+// YAML front matter
+export { splitFrontMatter, updateFrontMatter } from "./frontmatter.js";
 
 // AI Pattern Masking
 export {
   maskAIPatterns,
   maskAIPatternsInHTML,
+  maskAIPatternsInMarkdown,
   type MaskingOptions,
 } from "./masker.js";
@@ -0,0 +1,88 @@
+/**
+ * File Cache
+ * ==========
+ * Node.js cache store that keeps one JSON file per entry, so cached
+ * completions survive restarts and can be shared between processes.
+ */
+
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { CacheStore } from "./types.js";
+
+export interface FileCacheOptions {
+  /** Directory for the cache files (created on first write) */
+  directory: string;
+  /** Entry lifetime (ms; default: no expiry) */
+  ttlMs?: number;
+}
+
+interface FileEntry {
+  value: string;
+  /** Expiry (ms since epoch), null for none */
+  expiresAt: number | null;
+}
+
+let tempCounter = 0;
+
+/**
+ * Create a filesystem cache store.
+ *
+ * @example
+ * ```typescript
+ * const rewriter = new ContentRewriter({
+ *   provider: "openai",
+ *   apiKey,
+ *   cache: createFileCache({ directory: ".cache/rewrites", ttlMs: 7 * 24 * 60 * 60 * 1000 }),
+ * });
+ * ```
+ */
+export function createFileCache(options: FileCacheOptions): CacheStore & { clear(): Promise<void> } {
+  const { directory, ttlMs } = options;
+  // Reversible encoding, so different keys never share a file ("*" is not valid on Windows)
+  const pathFor = (key: string) =>
+    join(directory, `${encodeURIComponent(key).replace(/\*/g, "%2A")}.json`);
+
+  return {
+    async get(key) {
+      let entry: FileEntry;
+      try {
+        entry = JSON.parse(await readFile(pathFor(key), "utf8")) as FileEntry;
+      } catch {
+        return undefined;
+      }
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        await rm(pathFor(key), { force: true });
+        return undefined;
+      }
+      return entry.value;
+    },
+    async set(key, value) {
+      await mkdir(directory, { recursive: true });
+      const entry: FileEntry = {
+        value,
+        expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : null,
+      };
+      // Write then rename so readers never see a partial file
+      const path = pathFor(key);
+      const temp = `${path}.${process.pid}.${tempCounter++}.tmp`;
+      await writeFile(temp, JSON.stringify(entry), "utf8");
+      await rename(temp, path);
+    },
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+    async clear() {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch {
+        return;
+      }
+      await Promise.all(
+        files
+          .filter((file) => file.endsWith(".json"))
+          .map((file) => rm(join(directory, file), { force: true }))
+      );
+    },
+  };
+}
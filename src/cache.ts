@@ -0,0 +1,77 @@
+/**
+ * Completion Cache
+ * ================
+ * In-memory cache store for ContentRewriter. Any CacheStore works
+ * (see createFileCache for a Node.js filesystem store).
+ */
+
+import type { CacheStore } from "./types.js";
+import { ValidationError } from "./types.js";
+
+export interface MemoryCacheOptions {
+  /** Entries to keep; least recently used ones are evicted first (default: 1000) */
+  maxEntries?: number;
+  /** Entry lifetime (ms; default: no expiry) */
+  ttlMs?: number;
+}
+
+export interface MemoryCache extends CacheStore {
+  /** Entries currently stored (including expired ones not yet evicted) */
+  readonly size: number;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Create an in-memory LRU cache store.
+ *
+ * @example
+ * ```typescript
+ * const rewriter = new ContentRewriter({
+ *   provider: "openai",
+ *   apiKey,
+ *   cache: createMemoryCache({ maxEntries: 500, ttlMs: 24 * 60 * 60 * 1000 }),
+ * });
+ * ```
+ */
+export function createMemoryCache(options: MemoryCacheOptions = {}): MemoryCache {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  if (!(maxEntries >= 1)) {
+    throw new ValidationError("maxEntries must be at least 1", { maxEntries });
+  }
+  const ttlMs = options.ttlMs;
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get size() {
+      return entries.size;
+    },
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      // Re-insert to mark as most recently used
+      entries.set(key, entry);
+      return entry.value;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : Infinity });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
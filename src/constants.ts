@@ -17,10 +17,20 @@ export const LIMITS = {
   DESCRIPTION_MAX: 300,
   /** Maximum HTML content length */
   HTML_MAX: 41999,
-  /** Threshold for chunked processing (characters) */
+  /**
+   * Threshold for chunked processing (characters).
+   * @deprecated Chunking is driven by the model's token budget - see getTokenBudget()
+   */
   LARGE_ARTICLE_THRESHOLD: 12000,
-  /** Default chunk size for large articles */
+  /**
+   * Default chunk size for large articles (characters).
+   * @deprecated Chunk sizes are derived from the model's token budget - see getTokenBudget()
+   */
   CHUNK_SIZE: 2800,
+  /** Expected output tokens per input token when rewriting */
+  OUTPUT_TO_INPUT_RATIO: 1.2,
+  /** Share of the output token limit a single call may plan to use */
+  OUTPUT_SAFETY_MARGIN: 0.9,
   /** Overlap between chunks for context (characters) */
   CHUNK_OVERLAP: 200,
   /** Maximum rewrites per batch */
@@ -38,38 +48,34 @@ export const PROCESSING = {
   MAX_CONCURRENT_CHUNKS: 5,
   /** Delay between chunk batches (ms) */
   CHUNK_BATCH_DELAY_MS: 200,
-  /** Maximum retries for failed requests */
+  /** Maximum attempts for failed requests */
   MAX_RETRIES: 5,
   /** Base delay for exponential backoff (ms) */
   RETRY_BASE_DELAY_MS: 1000,
+  /** Maximum backoff delay (ms) */
+  RETRY_MAX_DELAY_MS: 10000,
+  /** Random spread of backoff delays (fraction) */
+  RETRY_JITTER: 0.2,
+  /** Attempts at a valid structured (JSON) response before failing */
+  STRUCTURED_OUTPUT_ATTEMPTS: 2,
 } as const;
 
 // =============================================================================
 // MODEL PRICING (USD per 1M tokens)
 // =============================================================================
 
-export interface ModelPricing {
-  input: number;
-  output: number;
-}
-
-// Only gpt-4.1 is supported
-export const MODEL_PRICING: Record<string, ModelPricing> = {
-  "gpt-4.1": { input: 5.0, output: 15.0 },
-  default: { input: 5.0, output: 15.0 },
-};
-
-export function getModelPricing(model: string): ModelPricing {
-  return MODEL_PRICING["gpt-4.1"];
-}
+// Moved to models.ts (runtime-extensible registry), re-exported for compatibility
+export { MODEL_PRICING, getModelPricing, type ModelPricing } from "./models.js";
 
 // =============================================================================
 // DEFAULT VALUES
 // =============================================================================
 
 export const DEFAULTS = {
-  /** Default model - only gpt-4.1 supported */
+  /** Default OpenAI model */
   MODEL: "gpt-4.1",
+  /** Default Anthropic model */
+  ANTHROPIC_MODEL: "claude-sonnet-4-6",
   /** Default temperature (0.9 for creative rewrites) */
   TEMPERATURE: 0.9,
   /** Top P for diversity */
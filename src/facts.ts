@@ -0,0 +1,341 @@
+/**
+ * Fact Check
+ * ==========
+ * Extracts the facts a rewrite must not change - money amounts,
+ * percentages, dates, odds, other numbers and (heuristically) proper
+ * names - and compares the facts of rewritten content with its source.
+ */
+
+import type { Fact, FactChange, FactKind, FactReport } from "./types.js";
+
+// =============================================================================
+// TEXT PREPARATION
+// =============================================================================
+
+const DEFAULT_KINDS: FactKind[] = ["money", "percentage", "date", "odds", "number"];
+
+const BLOCK_TAG =
+  /<\/?(?:p|div|h[1-6]|li|ul|ol|dl|dt|dd|tr|td|th|table|thead|tbody|br|hr|blockquote|section|article|header|footer|pre|figure|figcaption)\b[^>]*>/gi;
+
+const ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&#160;": " ",
+  "&amp;": "&",
+  "&euro;": "€",
+  "&pound;": "£",
+  "&yen;": "¥",
+  "&dollar;": "$",
+  "&#36;": "$",
+  "&percnt;": "%",
+  "&#37;": "%",
+};
+
+/**
+ * Plain text of HTML or Markdown: blocks on their own lines, inline tags,
+ * URLs, link targets and placeholders removed.
+ */
+function factText(content: string): string {
+  return content
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "\n")
+    .replace(BLOCK_TAG, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/\]\([^)]*\)/g, "]")
+    .replace(/https?:\/\/\S+/g, " ")
+    .replace(/\{\{rw-[\w-]+\}\}/g, " ")
+    .replace(/&(?:nbsp|amp|euro|pound|yen|dollar|percnt|#160|#36|#37);/gi, (entity) =>
+      ENTITIES[entity.toLowerCase()]
+    );
+}
+
+// =============================================================================
+// NORMALIZATION
+// =============================================================================
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const CURRENCIES: Record<string, string> = {
+  usd: "$",
+  dollar: "$",
+  dollars: "$",
+  eur: "€",
+  euro: "€",
+  euros: "€",
+  gbp: "£",
+  pound: "£",
+  pounds: "£",
+  jpy: "¥",
+  inr: "₹",
+};
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+/** "1,000", "1.000" and "1000" are the same amount; "1,5" is 1.5 */
+function parseAmount(text: string, scale = ""): string {
+  let digits = text.replace(/\s/g, "");
+  if (/^\d{1,3}([.,])\d{3}(\1\d{3})*$/.test(digits)) {
+    digits = digits.replace(/[.,]/g, "");
+  } else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(digits)) {
+    digits = digits.replace(/,/g, "");
+  } else if (/^\d{1,3}(\.\d{3})+,\d+$/.test(digits)) {
+    digits = digits.replace(/\./g, "").replace(",", ".");
+  } else {
+    digits = digits.replace(",", ".");
+  }
+  const value = Number(digits) * (SCALES[scale.toLowerCase()] ?? 1);
+  return Number.isNaN(value) ? text : String(Number(value.toPrecision(12)));
+}
+
+function monthNumber(name: string): string {
+  return String(MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1).padStart(2, "0");
+}
+
+function pad(value: string): string {
+  return String(Number(value)).padStart(2, "0");
+}
+
+function fullYear(year: string): string {
+  return year.length === 2 ? `20${year}` : year;
+}
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+const AMOUNT = "\\d+(?:[.,]\\d+)*";
+const SCALE = "(?:\\s?(k|m|bn|thousand|million|billion)\\b)?";
+const MONTH =
+  "(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?";
+const ORDINAL = "(?:st|nd|rd|th)?";
+
+interface FactPattern {
+  kind: Exclude<FactKind, "entity">;
+  pattern: RegExp;
+  /** Normalized value from the match groups (undefined skips the match) */
+  value: (match: RegExpMatchArray) => string | undefined;
+}
+
+/** Applied in order; matched text is blanked so later patterns do not see it */
+const FACT_PATTERNS: FactPattern[] = [
+  {
+    kind: "date",
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+    value: ([, year, month, day]) => `${year}-${pad(month)}-${pad(day)}`,
+  },
+  {
+    kind: "date",
+    pattern: /\b(\d{1,2})([./])(\d{1,2})\2(\d{4}|\d{2})\b/g,
+    value: ([, first, , second, year]) => `${Number(first)}/${Number(second)}/${fullYear(year)}`,
+  },
+  {
+    kind: "date",
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})${ORDINAL},?\\s+(\\d{4})\\b`, "g"),
+    value: ([, month, day, year]) => `${year}-${monthNumber(month)}-${pad(day)}`,
+  },
+  {
+    kind: "date",
+    pattern: new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH}\\s+(\\d{4})\\b`, "g"),
+    value: ([, day, month, year]) => `${year}-${monthNumber(month)}-${pad(day)}`,
+  },
+  {
+    kind: "date",
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{4})\\b`, "g"),
+    value: ([, month, year]) => `${year}-${monthNumber(month)}`,
+  },
+  {
+    kind: "date",
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})${ORDINAL}\\b`, "g"),
+    value: ([, month, day]) => `--${monthNumber(month)}-${pad(day)}`,
+  },
+  {
+    kind: "money",
+    pattern: new RegExp(`(?:([$€£¥₹])|\\b(USD|EUR|GBP)\\s?)(${AMOUNT})${SCALE}`, "gi"),
+    value: ([, symbol, code, amount, scale]) =>
+      `${symbol || CURRENCIES[code.toLowerCase()]}${parseAmount(amount, scale)}`,
+  },
+  {
+    kind: "money",
+    pattern: new RegExp(
+      `(?<![\\w.,])(${AMOUNT})${SCALE}\\s?([$€£¥₹]|(?:USD|EUR|GBP|JPY|INR|dollars?|euros?|pounds?)\\b)`,
+      "gi"
+    ),
+    value: ([, amount, scale, currency]) =>
+      `${CURRENCIES[currency.toLowerCase()] || currency}${parseAmount(amount, scale)}`,
+  },
+  {
+    kind: "percentage",
+    pattern: new RegExp(`(?<![\\w.,])(${AMOUNT})\\s?(?:%|percent\\b|per cent\\b)`, "gi"),
+    value: ([, amount]) => `${parseAmount(amount)}%`,
+  },
+  {
+    kind: "odds",
+    pattern: /(?<![\w./])(\d{1,3})\/(\d{1,3})(?![\w/])/g,
+    value: ([, numerator, denominator]) => `${Number(numerator)}/${Number(denominator)}`,
+  },
+  {
+    kind: "odds",
+    pattern: /(?<![\w.,])([+-]\d{3,4})(?![\w.,]\d)/g,
+    value: ([, odds]) => odds,
+  },
+  {
+    // Wagering requirements and multipliers: "35x"
+    kind: "number",
+    pattern: new RegExp(`(?<![\\w.,])(${AMOUNT})x\\b`, "gi"),
+    value: ([, amount]) => `${parseAmount(amount)}x`,
+  },
+  {
+    kind: "number",
+    pattern: new RegExp(
+      `(?<![\\w.,])(${AMOUNT})(?:\\s(thousand|million|billion)\\b)?(?![\\w]|[.,]\\d)`,
+      "gi"
+    ),
+    // Small whole numbers are often written out ("three steps")
+    value: ([, amount, scale]) => {
+      const value = parseAmount(amount, scale);
+      return /^\d$/.test(value) ? undefined : value;
+    },
+  },
+];
+
+/** Words that start a capitalized run without being part of the name */
+const LEADING_WORDS = new Set([
+  "a", "an", "and", "at", "but", "by", "for", "from", "if", "in", "it", "its", "of", "on", "or",
+  "our", "the", "their", "these", "this", "those", "to", "we", "when", "with", "you", "your",
+]);
+
+/**
+ * Proper names: runs of capitalized words ("Malta Gaming Authority") and
+ * single words with inner capitals or digits ("PayPal", "UKGC", "Bet365").
+ * A single plain capitalized word counts only when it is not the first
+ * word of a sentence.
+ */
+function extractEntities(text: string): Fact[] {
+  const facts: Fact[] = [];
+  const pattern = /\b[A-Z][\w'’&-]*(?:[ \t]+[A-Z][\w'’&-]*)*/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    let words = match[0].split(/[ \t]+/);
+    let previous = match.index - 1;
+    while (previous >= 0 && (text[previous] === " " || text[previous] === "\t")) {
+      previous--;
+    }
+    let sentenceStart = previous < 0 || /[.!?:;"“\n]/.test(text[previous]);
+    while (words.length > 0 && LEADING_WORDS.has(words[0].toLowerCase())) {
+      words = words.slice(1);
+      sentenceStart = false;
+    }
+    if (words.length === 0) {
+      continue;
+    }
+    const distinctive = /^.+[A-Z0-9]/.test(words[0]);
+    if (words.length === 1 && !distinctive && sentenceStart) {
+      continue;
+    }
+    const name = words.join(" ");
+    facts.push({ kind: "entity", value: name, text: name });
+  }
+
+  return facts;
+}
+
+/**
+ * Extract money amounts, percentages, dates, odds, other numbers and
+ * proper names from HTML, Markdown or plain text, in order of appearance
+ * per kind. Whole numbers below 10 are skipped (often written out).
+ *
+ * @example
+ * ```typescript
+ * extractFacts("<p>Get $1,000 and 50 spins until March 31, 2025.</p>");
+ * // money "$1000", date "2025-03-31", number "50"
+ * ```
+ */
+export function extractFacts(content: string): Fact[] {
+  let text = factText(content);
+  const facts: Fact[] = [];
+
+  for (const { kind, pattern, value } of FACT_PATTERNS) {
+    let blanked = text;
+    for (const match of text.matchAll(pattern)) {
+      const normalized = value(match);
+      if (normalized === undefined) {
+        continue;
+      }
+      facts.push({ kind, value: normalized, text: match[0].trim() });
+      const start = match.index ?? 0;
+      blanked = blanked.slice(0, start) + " ".repeat(match[0].length) + blanked.slice(start + match[0].length);
+    }
+    text = blanked;
+  }
+
+  // Month names of dates and currency codes are blanked by now
+  return [...facts, ...extractEntities(text)];
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+function factKey(fact: Fact): string {
+  return `${fact.kind}:${fact.value}`;
+}
+
+function distinctFacts(facts: Fact[]): Fact[] {
+  const seen = new Set<string>();
+  return facts.filter((fact) => !seen.has(factKey(fact)) && Boolean(seen.add(factKey(fact))));
+}
+
+/**
+ * Compare the facts of rewritten content with its source. A source fact
+ * absent from the output is "changed" when the output has a new value of
+ * the same kind to pair it with (in order of appearance), else "missing".
+ *
+ * @param kinds - Fact kinds to compare (default: all except "entity")
+ *
+ * @example
+ * ```typescript
+ * const report = compareFacts(original, result.content);
+ * for (const { source, output } of report.changed) {
+ *   console.warn(`${source.text} became ${output.text}`);
+ * }
+ * ```
+ */
+export function compareFacts(
+  source: string,
+  output: string,
+  kinds: FactKind[] = DEFAULT_KINDS
+): FactReport {
+  const select = (facts: Fact[]) => distinctFacts(facts.filter((fact) => kinds.includes(fact.kind)));
+  const before = select(extractFacts(source));
+  const after = select(extractFacts(output));
+  const beforeKeys = new Set(before.map(factKey));
+  const afterKeys = new Set(after.map(factKey));
+
+  const replacements = after.filter((fact) => !beforeKeys.has(factKey(fact)));
+  const missing: Fact[] = [];
+  const changed: FactChange[] = [];
+  for (const fact of before) {
+    if (afterKeys.has(factKey(fact))) {
+      continue;
+    }
+    const index = replacements.findIndex((candidate) => candidate.kind === fact.kind);
+    if (index === -1) {
+      missing.push(fact);
+    } else {
+      changed.push({ source: fact, output: replacements.splice(index, 1)[0] });
+    }
+  }
+
+  return {
+    passed: missing.length + changed.length === 0,
+    checked: before.length,
+    missing,
+    changed,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * YAML Front Matter
+ * =================
+ * Hugo, Astro and other static-site generators start Markdown files with
+ * a YAML block between `---` lines. splitFrontMatter separates it from the
+ * content; updateFrontMatter writes new values for some fields and keeps
+ * every other line (comments, lists, maps, quoting) as it is.
+ *
+ * Only top-level scalar fields are read: plain, quoted and block scalars.
+ */
+
+import type { FrontMatter } from "./types.js";
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Opening `---`, YAML, closing `---` (or `...`) and the blank lines after it */
+const FRONT_MATTER = /^(\uFEFF?---[ \t]*\r?\n)([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n[ \t]*)*(?:\r?\n|$)/;
+
+/** A top-level `key: value` line */
+const TOP_LEVEL_KEY = /^([\w.-]+)[ \t]*:(?:[ \t]+(.*?))?[ \t]*$/;
+
+interface FieldLines {
+  key: string;
+  /** First line of the field */
+  start: number;
+  /** Line after the field's last non-blank line */
+  end: number;
+}
+
+/** Every top-level field with the lines it spans (indented continuation lines included) */
+function findFields(lines: string[]): FieldLines[] {
+  const fields: FieldLines[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(TOP_LEVEL_KEY);
+    if (!match) {
+      continue;
+    }
+    let end = i + 1;
+    for (let next = i + 1; next < lines.length && !/^[^\s#]/.test(lines[next]); next++) {
+      // Comments and blank lines after the field belong to the next one
+      if (/^\s+\S/.test(lines[next])) {
+        end = next + 1;
+      }
+    }
+    fields.push({ key: match[1], start: i, end });
+    i = end - 1;
+  }
+  return fields;
+}
+
+/**
+ * Value of a scalar field, or undefined for lists, maps and flow collections.
+ */
+function parseScalar(value: string, continuation: string[]): string | undefined {
+  const indent = Math.min(
+    ...continuation.filter((line) => line.trim()).map((line) => line.match(/^\s*/)![0].length)
+  );
+  const lines = continuation.map((line) => line.slice(indent).trimEnd());
+
+  // Block scalars: literal (|) keeps line breaks, folded (>) joins lines
+  if (/^[|>][+-]?\d*$/.test(value)) {
+    const text = value.startsWith("|")
+      ? lines.join("\n")
+      : lines.join("\n").replace(/([^\n])\n(?=[^\n])/g, "$1 ").replace(/\n\n/g, "\n");
+    return text.trim();
+  }
+  if (!value || /^[[{&*!]/.test(value)) {
+    return undefined;
+  }
+
+  const text = [value, ...lines.filter(Boolean)].join(" ");
+  const doubleQuoted = text.match(/^"((?:[^"\\]|\\.)*)"/);
+  if (doubleQuoted) {
+    try {
+      return JSON.parse(doubleQuoted[0]);
+    } catch {
+      return doubleQuoted[1];
+    }
+  }
+  const singleQuoted = text.match(/^'((?:[^']|'')*)'/);
+  if (singleQuoted) {
+    return singleQuoted[1].replace(/''/g, "'");
+  }
+  // Plain scalar, without a trailing comment
+  return text.replace(/\s+#.*$/, "");
+}
+
+/**
+ * Separate YAML front matter from the content. Content without front
+ * matter (or with a block that is not YAML) comes back as the body.
+ *
+ * @example
+ * ```typescript
+ * const { frontMatter, body } = splitFrontMatter(file);
+ * frontMatter?.fields.title; // "Best casino bonuses"
+ * ```
+ */
+export function splitFrontMatter(content: string): { frontMatter?: FrontMatter; body: string } {
+  const match = content.match(FRONT_MATTER);
+  // A Markdown thematic break is not front matter: the first line must be a YAML key
+  const firstLine = match?.[2].split(/\r?\n/).find((line) => line.trim() && !line.startsWith("#"));
+  if (!match || !firstLine || !TOP_LEVEL_KEY.test(firstLine)) {
+    return { body: content };
+  }
+
+  const lines = match[2].split(/\r?\n/);
+  const fields: Record<string, string> = {};
+  for (const { key, start, end } of findFields(lines)) {
+    const value = parseScalar(lines[start].match(TOP_LEVEL_KEY)![2] || "", lines.slice(start + 1, end));
+    if (value !== undefined) {
+      fields[key] = value;
+    }
+  }
+
+  return {
+    frontMatter: { block: match[0], fields },
+    body: content.slice(match[0].length),
+  };
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+/** YAML words and numbers that a plain scalar would turn into another type */
+const NON_STRING = /^(?:true|false|yes|no|on|off|null|~|[-+]?(?:\d[\d_]*)?\.?\d+(?:e[-+]?\d+)?)$/i;
+
+/** A value as a YAML scalar, in the quoting style of the value it replaces */
+function formatScalar(value: string, previous: string): string {
+  if (previous.startsWith("'") && !value.includes("\n")) {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  const plain =
+    !previous.startsWith('"') &&
+    /^[^\s\-?:,[\]{}#&*!|>'"%@`][^\n]*$/.test(value) &&
+    !/:\s|\s#|\s$/.test(value) &&
+    !NON_STRING.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Write new values into front matter. Existing fields are replaced in
+ * place (continuation lines included); missing fields are added at the end.
+ *
+ * @example
+ * ```typescript
+ * const { frontMatter, body } = splitFrontMatter(file);
+ * const output = updateFrontMatter(frontMatter, { title: "New title" }) + rewrittenBody;
+ * ```
+ */
+export function updateFrontMatter(frontMatter: FrontMatter, values: Record<string, string>): string {
+  const match = frontMatter.block.match(FRONT_MATTER)!;
+  const newline = match[0].includes("\r\n") ? "\r\n" : "\n";
+  const lines = match[2].split(/\r?\n/);
+  const fields = findFields(lines);
+
+  const added: string[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    const field = fields.find((candidate) => candidate.key === key);
+    if (!field) {
+      added.push(`${key}: ${formatScalar(value, "")}`);
+      continue;
+    }
+    const previous = lines[field.start].match(TOP_LEVEL_KEY)![2] || "";
+    const replaced = field.end - field.start;
+    lines.splice(field.start, replaced, `${key}: ${formatScalar(value, previous)}`);
+    // Later fields moved up
+    for (const other of fields) {
+      if (other.start > field.start) {
+        other.start -= replaced - 1;
+        other.end -= replaced - 1;
+      }
+    }
+    field.end = field.start + 1;
+  }
+
+  const yaml = [...lines, ...added].join(newline);
+  const start = match[1].length;
+  return frontMatter.block.slice(0, start) + yaml + frontMatter.block.slice(start + match[2].length);
+}
@@ -35,14 +35,60 @@ export type {
   ContentInput,
   ContentFormat,
   RewriteResult,
+  VariantOutcome,
+  UsageEntry,
+  UsageTotals,
+  UsageBreakdown,
+  UsageRecord,
+  CacheStore,
+  HtmlStructure,
+  StructureCheck,
+  StructureIssue,
+  StructureReport,
+  StructurePolicy,
+  LinkReport,
+  ProtectedLink,
+  RewritePlaceholders,
+  TermReport,
+  Fact,
+  FactChange,
+  FactKind,
+  FactPolicy,
+  FactReport,
+  FrontMatter,
+  FrontMatterOptions,
   // Provider types
   ProviderConfig,
   ProviderType,
+  RewriteProvider,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionUsage,
+  JsonSchemaFormat,
+  ChatMessage,
+  FailoverOptions,
+  FailoverTrigger,
+  FailoverEvent,
+  ProviderHealth,
+  RetryPolicy,
+  RetryEvent,
+  RateLimiter,
+  RateLimiterOptions,
   // Progress types
   RewriteProgress,
   ProgressCallback,
   StreamingResult,
   StreamingCallback,
+  StreamingEvent,
+  // Batch types
+  BatchInput,
+  BatchRewriteOptions,
+  BatchJob,
+  BatchJobItem,
+  BatchState,
+  BatchStatus,
+  BatchWaitOptions,
+  BatchItemResult,
 } from "./types.js";
 
 // Errors
@@ -51,6 +97,7 @@ export {
   ProviderError,
   ValidationError,
   RateLimitError,
+  BudgetExceededError,
 } from "./types.js";
 
 // Constants
@@ -64,6 +111,28 @@ export {
   type PromptTemplateKey,
 } from "./constants.js";
 
+// Tokenizer
+export {
+  countTokens,
+  getEncodingForModel,
+  type TokenizerEncoding,
+} from "./tokenizer.js";
+
+// Model registry
+export {
+  registerModel,
+  unregisterModel,
+  getModelInfo,
+  isKnownModel,
+  listModels,
+  setUnknownModelPolicy,
+  DEFAULT_MODEL_INFO,
+  type ModelInfo,
+  type ModelPricing,
+  type UnknownModelPolicy,
+  type UnknownModelPolicyOptions,
+} from "./models.js";
+
 // Utilities (for advanced usage)
 export {
   detectFormat,
@@ -73,26 +142,138 @@ export {
   normalizeArticleContent,
   estimateTokens,
   splitIntoChunks,
+  splitIntoTokenChunks,
+  splitIntoHtmlChunks,
+  splitIntoMarkdownChunks,
+  splitMarkdownBlocks,
   parseAiResponse,
   checkUniqueness,
   type UniquenessResult,
 } from "./utils.js";
 
-// Cost estimation
-export { estimateCost, calculateCost } from "./providers/openai.js";
+// Cost estimation and token budgets
+export {
+  estimateCost,
+  calculateCost,
+  getTokenBudget,
+  isLargeContent,
+  createCostBudget,
+  summarizeUsage,
+  completionCacheKey,
+  type TokenBudget,
+  type CostBudget,
+} from "./providers/pipeline.js";
+
+// Provider-agnostic pipeline (for custom providers - advanced)
+export {
+  rewriteWithProvider,
+  rewriteLargeContentWithProvider,
+  generateVariantsWithProvider,
+  generateVariantsSettledWithProvider,
+  isFatalError,
+  type GenerateVariantsOptions,
+  type SettledVariant,
+  type ProviderRewriteOptions,
+  type ProviderRewriteResult,
+  type ProviderStreamEvent,
+} from "./providers/pipeline.js";
 
 // Providers (for direct access - advanced)
 export {
   rewriteWithOpenAI,
   rewriteLargeContentWithOpenAI,
   generateVariantsWithOpenAI,
+  createOpenAIProvider,
   type OpenAIRewriteOptions,
   type OpenAIRewriteResult,
+  rewriteWithAnthropic,
+  rewriteLargeContentWithAnthropic,
+  generateVariantsWithAnthropic,
+  createAnthropicProvider,
+  type AnthropicRewriteOptions,
+  type AnthropicRewriteResult,
 } from "./providers/index.js";
 
+// OpenAI Batch API (offline bulk rewrites)
+export {
+  submitOpenAIBatch,
+  getOpenAIBatchStatus,
+  collectOpenAIBatch,
+  waitForOpenAIBatch,
+  type OpenAIBatchItem,
+  type OpenAIBatchSubmitOptions,
+} from "./providers/index.js";
+
+// Retry policy
+export {
+  withRetry,
+  getRetryDelay,
+  isAbortError,
+} from "./providers/index.js";
+
+// Client-side rate limiting
+export { createRateLimiter } from "./providers/index.js";
+
+// Completion cache
+export {
+  createMemoryCache,
+  type MemoryCache,
+  type MemoryCacheOptions,
+} from "./cache.js";
+export { createFileCache, type FileCacheOptions } from "./cache-file.js";
+
+// Failover chain
+export {
+  createFailoverProvider,
+  classifyFailoverError,
+  type FailoverProvider,
+} from "./providers/index.js";
+
+// Mock provider (offline testing)
+export {
+  createMockProvider,
+  createRecordingProvider,
+  cassetteKey,
+  type MockProvider,
+  type MockProviderOptions,
+  type MockResponse,
+  type MockScript,
+  type MockCall,
+  type RecordingProvider,
+  type Cassette,
+  type CassetteEntry,
+  type CompletionKind,
+} from "./providers/index.js";
+export { loadCassette, saveCassette } from "./providers/cassette.js";
+
+// HTML structure check
+export { analyzeHtmlStructure, compareHtmlStructure } from "./structure.js";
+
+// Link protection
+export {
+  compareLinks,
+  compareProtectedLinks,
+  protectLinks,
+  restoreLinks,
+  type ProtectedContent,
+} from "./links.js";
+
+// Protected terms
+export { compareTerms, protectTerms, restoreTerms } from "./terms.js";
+
+// Fact check
+export { compareFacts, extractFacts } from "./facts.js";
+
+// Markdown output
+export { ensureMarkdown, htmlToMarkdown } from "./markdown.js";
+
+// YAML front matter
+export { splitFrontMatter, updateFrontMatter } from "./frontmatter.js";
+
 // AI Pattern Masking (anti-detection)
 export {
   maskAIPatterns,
   maskAIPatternsInHTML,
+  maskAIPatternsInMarkdown,
   type MaskingOptions,
 } from "./masker.js";
@@ -0,0 +1,198 @@
+/**
+ * Link Protection
+ * ===============
+ * Swaps links for opaque placeholders before content reaches a model (or
+ * the masker) and restores them afterwards, so hrefs, tracking parameters
+ * and rel attributes come back byte for byte. compareLinks reports links
+ * that were lost, duplicated, added or altered.
+ *
+ * Covered: HTML <a> opening tags, Markdown link targets and bare URLs in text.
+ */
+
+import type { LinkReport, ProtectedLink } from "./types.js";
+
+// =============================================================================
+// PLACEHOLDERS
+// =============================================================================
+
+export interface ProtectedContent {
+  /** Content with placeholders */
+  content: string;
+  /** Originals, placeholder N at index N - 1 */
+  links: ProtectedLink[];
+}
+
+const ANCHOR_TAG = /<a\b[^>]*>/gi;
+const MARKDOWN_TARGET = /\]\(\s*(<[^>]*>|[^()\s]+)(\s+"[^"]*")?\s*\)/g;
+const BARE_URL = /\bhttps?:\/\/[^\s<>"'()[\]{}]+[^\s<>"'()[\]{}.,;:!?]/gi;
+
+const ANCHOR_PLACEHOLDER = /<a\b[^>]*\bhref=["']#rw-link-(\d+)["'][^>]*>/gi;
+const MARKDOWN_PLACEHOLDER = /\]\(#rw-link-(\d+)\)/g;
+const URL_PLACEHOLDER = /\{\{rw-url-(\d+)\}\}/g;
+
+/** Apply `replace` to the text between tags only */
+function replaceInText(content: string, pattern: RegExp, replace: (match: string) => string): string {
+  return content
+    .split(/(<[^>]*>)/)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(pattern, replace)))
+    .join("");
+}
+
+/**
+ * Replace links with placeholders: `<a href="#rw-link-N">`, `](#rw-link-N)`
+ * and `{{rw-url-N}}`.
+ *
+ * @example
+ * ```typescript
+ * const shielded = protectLinks(html);
+ * const rewritten = await rewrite(shielded.content);
+ * const restored = restoreLinks(rewritten, shielded);
+ * ```
+ */
+export function protectLinks(content: string): ProtectedContent {
+  const links: ProtectedLink[] = [];
+  /** Store a link and return its placeholder number */
+  const add = (kind: ProtectedLink["kind"], value: string) => {
+    links.push({ kind, value });
+    return links.length;
+  };
+
+  let result = content.replace(ANCHOR_TAG, (tag) => `<a href="#rw-link-${add("anchor", tag)}">`);
+  result = result.replace(
+    MARKDOWN_TARGET,
+    (match: string, target: string, title = "") => `](#rw-link-${add("markdown", `${target}${title}`)})`
+  );
+  result = replaceInText(result, BARE_URL, (url) => `{{rw-url-${add("url", url)}}}`);
+
+  return { content: result, links };
+}
+
+/**
+ * Put the original links back. Placeholders the model invented (unknown
+ * numbers) are left as they are; compareLinks reports them.
+ */
+export function restoreLinks(content: string, shielded: Pick<ProtectedContent, "links">): string {
+  const original = (id: string, kind: ProtectedLink["kind"]) => {
+    const link = shielded.links[Number(id) - 1];
+    return link?.kind === kind ? link.value : undefined;
+  };
+
+  return content
+    .replace(ANCHOR_PLACEHOLDER, (tag, id: string) => original(id, "anchor") ?? tag)
+    .replace(MARKDOWN_PLACEHOLDER, (match, id: string) => {
+      const target = original(id, "markdown");
+      return target !== undefined ? `](${target})` : match;
+    })
+    .replace(URL_PLACEHOLDER, (match, id: string) => original(id, "url") ?? match);
+}
+
+// =============================================================================
+// LINK REPORT
+// =============================================================================
+
+interface FoundLink {
+  /** href, Markdown target or URL */
+  target: string;
+  /** Full anchor tag with attributes sorted, for change detection */
+  signature: string;
+}
+
+function anchorSignature(tag: string): string {
+  const attributes: string[] = [];
+  for (const [, name, , doubleQuoted, singleQuoted, bare] of tag.matchAll(
+    /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g
+  )) {
+    attributes.push(`${name.toLowerCase()}=${doubleQuoted ?? singleQuoted ?? bare}`);
+  }
+  return attributes.sort().join(" ");
+}
+
+function findLinks(content: string): FoundLink[] {
+  const links: FoundLink[] = [];
+  for (const tag of content.match(ANCHOR_TAG) || []) {
+    const href = tag.match(/\bhref\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/i);
+    if (href) {
+      links.push({ target: href[2] ?? href[3] ?? href[4], signature: anchorSignature(tag) });
+    }
+  }
+  for (const match of content.matchAll(MARKDOWN_TARGET)) {
+    const target = match[1].replace(/^<|>$/g, "");
+    links.push({ target, signature: `${target}${match[2] || ""}` });
+  }
+  replaceInText(content.replace(MARKDOWN_TARGET, "]()"), BARE_URL, (url) => {
+    links.push({ target: url, signature: url });
+    return url;
+  });
+  return links;
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(key(item), (counts.get(key(item)) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Compare the links of rewritten content with its source.
+ *
+ * @example
+ * ```typescript
+ * const report = compareLinks(original, result.content);
+ * if (!report.passed) {
+ *   console.warn("Lost:", report.lost, "Added:", report.added);
+ * }
+ * ```
+ */
+export function compareLinks(source: string, output: string): LinkReport {
+  const before = findLinks(source);
+  const after = findLinks(output);
+  const beforeTargets = countBy(before, (link) => link.target);
+  const afterTargets = countBy(after, (link) => link.target);
+  const afterSignatures = countBy(after, (link) => link.signature);
+
+  const lost: string[] = [];
+  const duplicated: string[] = [];
+  const modified: string[] = [];
+  for (const [target, count] of beforeTargets) {
+    const found = afterTargets.get(target) || 0;
+    if (found < count) {
+      lost.push(target);
+    } else if (found > count) {
+      duplicated.push(target);
+    }
+  }
+  const added = [...afterTargets.keys()].filter((target) => !beforeTargets.has(target));
+
+  // Same target, different attributes (rel, target, title, ...)
+  for (const link of before) {
+    if (
+      afterTargets.has(link.target) &&
+      !afterSignatures.has(link.signature) &&
+      !modified.includes(link.target)
+    ) {
+      modified.push(link.target);
+    }
+  }
+
+  return {
+    passed: lost.length + duplicated.length + added.length + modified.length === 0,
+    total: before.length,
+    lost,
+    duplicated,
+    added,
+    modified,
+  };
+}
+
+/**
+ * Compare rewritten content with the links protectLinks took from its
+ * source, when the source itself is not at hand (batch results).
+ */
+export function compareProtectedLinks(links: ProtectedLink[], output: string): LinkReport {
+  const source = links
+    .map((link) => (link.kind === "markdown" ? `[](${link.value})` : link.value))
+    .join("\n");
+  return compareLinks(source, output);
+}
@@ -0,0 +1,169 @@
+/**
+ * Markdown Output
+ * ===============
+ * Converts HTML a model returned for Markdown input back to Markdown, so
+ * Markdown rewrites always come back as Markdown. Covers the elements
+ * rewrites produce: headings, paragraphs, lists, blockquotes, tables,
+ * code, links, images and emphasis. Other tags are dropped, keeping their text.
+ */
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_match, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&(?:amp|lt|gt|quot|#39|apos|nbsp);/g, (entity) => HTML_ENTITIES[entity]);
+}
+
+function attribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : "";
+}
+
+/** Prefix the first line with `marker` and indent the rest to line up with it */
+function prefixLines(text: string, marker: string, indent = " ".repeat(marker.length)): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 ? marker : line ? indent : indent.trimEnd()) + line)
+    .join("\n");
+}
+
+/** Replace the innermost matches first, so nested lists and quotes convert inside out */
+function replaceInnermost(text: string, pattern: RegExp, replace: (...groups: string[]) => string): string {
+  let previous: string;
+  do {
+    previous = text;
+    text = text.replace(pattern, (...args: unknown[]) => replace(...(args.slice(0, -2) as string[])));
+  } while (text !== previous);
+  return text;
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Convert HTML to Markdown.
+ *
+ * @example
+ * ```typescript
+ * htmlToMarkdown("<h2>Tips</h2><ul><li><strong>Fast</strong> payouts</li></ul>");
+ * // "## Tips\n\n- **Fast** payouts"
+ * ```
+ */
+export function htmlToMarkdown(html: string): string {
+  // Code blocks are kept out of every other step
+  const codeBlocks: string[] = [];
+  let text = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<pre\b[^>]*>\s*(?:<code\b([^>]*)>)?([\s\S]*?)(?:<\/code>)?\s*<\/pre>/gi,
+      (_match, codeAttributes: string | undefined, code: string) => {
+        const language = codeAttributes?.match(/language-([\w+-]+)/)?.[1] || "";
+        const body = decodeEntities(code.replace(/<[^>]*>/g, "")).trimEnd();
+        codeBlocks.push(`\`\`\`${language}\n${body}\n\`\`\``);
+        return `\n\n\u0000${codeBlocks.length - 1}\u0000\n\n`;
+      }
+    )
+    .replace(/\s+/g, " ");
+
+  // Inline elements
+  text = text
+    // Backslash line break: trailing spaces are trimmed below
+    .replace(/<br\s*\/?>/gi, "\\\n")
+    .replace(/<img\b[^>]*>/gi, (tag) => `![${attribute(tag, "alt")}](${attribute(tag, "src")})`)
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_match, attributes, label) => {
+      const href = attribute(attributes, "href");
+      const title = attribute(attributes, "title");
+      return href ? `[${label.trim()}](${href}${title ? ` "${title}"` : ""})` : label;
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_match, _tag, inner) => `**${inner.trim()}**`)
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_match, _tag, inner) => `*${inner.trim()}*`)
+    .replace(/<(del|s|strike)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_match, _tag, inner) => `~~${inner.trim()}~~`)
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_match, inner) => `\`${decodeEntities(inner)}\``);
+
+  // Blocks
+  text = text
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level, inner) =>
+      `\n\n${"#".repeat(Number(level))} ${inner.replace(/<[^>]*>/g, "").trim()}\n\n`
+    )
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<\/?(p|div|section|article|header|footer|main|aside|figure|figcaption)\b[^>]*>/gi, "\n\n");
+
+  text = replaceInnermost(
+    text,
+    /<(ul|ol)\b[^>]*>((?:(?!<(?:ul|ol)\b)[\s\S])*?)<\/\1>/i,
+    (_match, tag, inner) => {
+      const items = inner.match(/<li\b[^>]*>[\s\S]*?(?=<li\b|$)/gi) || [];
+      const lines = items.map((item, i) => {
+        const body = item
+          .replace(/^<li\b[^>]*>|<\/li>\s*$/gi, "")
+          .replace(/\n\s*\n/g, "\n")
+          .split("\n")
+          .map((line) => line.trimEnd())
+          .join("\n")
+          .trim();
+        return prefixLines(body, tag.toLowerCase() === "ol" ? `${i + 1}. ` : "- ");
+      });
+      return `\n\n${lines.join("\n")}\n\n`;
+    }
+  );
+
+  text = text.replace(/<table\b[^>]*>([\s\S]*?)<\/table>/gi, (_match, inner: string) => {
+    const rows = (inner.match(/<tr\b[^>]*>[\s\S]*?<\/tr>/gi) || []).map((row) =>
+      (row.match(/<t[hd]\b[^>]*>[\s\S]*?<\/t[hd]>/gi) || []).map((cell) =>
+        cell.replace(/<[^>]*>/g, "").replace(/\|/g, "\\|").trim()
+      )
+    );
+    if (rows.length === 0) {
+      return "";
+    }
+    const columns = Math.max(...rows.map((row) => row.length));
+    const line = (cells: string[]) =>
+      `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+    return `\n\n${[line(rows[0]), line(Array(columns).fill("---")), ...rows.slice(1).map(line)].join("\n")}\n\n`;
+  });
+
+  text = replaceInnermost(
+    text,
+    /<blockquote\b[^>]*>((?:(?!<blockquote\b)[\s\S])*?)<\/blockquote>/i,
+    (_match, inner) => `\n\n${prefixLines(inner.trim().replace(/\n{3,}/g, "\n\n"), "> ", "> ")}\n\n`
+  );
+
+  text = decodeEntities(text.replace(/<[^>]*>/g, ""))
+    .split("\n")
+    .map((line) => (/^\s*$/.test(line) ? "" : line.replace(/^ (?=\S)/, "").replace(/(\S) +$/, "$1")))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_match, index) => codeBlocks[Number(index)]);
+}
+
+/**
+ * Whether text is HTML rather than Markdown with some inline HTML:
+ * it has closing tags of block elements.
+ */
+export function looksLikeHtml(text: string): boolean {
+  return /<\/(p|h[1-6]|ul|ol|li|div|table|blockquote|section|article)>/i.test(text);
+}
+
+/**
+ * Return Markdown as is and convert HTML to Markdown.
+ */
+export function ensureMarkdown(text: string): string {
+  return looksLikeHtml(text) ? htmlToMarkdown(text) : text;
+}
@@ -5,6 +5,8 @@
  * more natural and human-written.
  */
 
+import { protectTerms, restoreTerms } from "./terms.js";
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -26,6 +28,8 @@ export interface MaskingOptions {
   replaceAIPhrases?: boolean;
   /** Remove overly structured patterns */
   removeStructuralPatterns?: boolean;
+  /** Exact phrases (brand names, keywords) no transformation may touch */
+  protectedTerms?: string[];
 }
 
 // =============================================================================
@@ -266,7 +270,8 @@ function addNaturalVariations(text: string): string {
  */
 export function maskAIPatterns(text: string, options: MaskingOptions = {}): string {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  let result = text;
+  const terms = opts.protectedTerms || [];
+  let result = protectTerms(text, terms);
 
   if (opts.replaceDashes) {
     result = replaceEmDashes(result);
@@ -300,7 +305,7 @@ export function maskAIPatterns(text: string, options: MaskingOptions = {}): stri
     result = addNaturalVariations(result);
   }
 
-  return result;
+  return restoreTerms(result, terms);
 }
 
 /**
@@ -350,3 +355,59 @@ export function maskAIPatternsInHTML(html: string, options: MaskingOptions = {})
 
   return result;
 }
+
+/**
+ * Mask AI-generated patterns in Markdown while preserving its syntax:
+ * code blocks, inline code, link targets, link reference definitions and
+ * HTML lines are left alone; list, heading and quote markers are kept and
+ * only the text after them is masked. List and bullet rewriting is off.
+ */
+export function maskAIPatternsInMarkdown(markdown: string, options: MaskingOptions = {}): string {
+  const lineOptions: MaskingOptions = { ...options, replaceBullets: false, varyLists: false };
+  let fence: string | null = null;
+
+  return markdown
+    .split("\n")
+    .map((line) => {
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fence) {
+        if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+          fence = null;
+        }
+        return line;
+      }
+      if (fenceMatch) {
+        fence = fenceMatch[1];
+        return line;
+      }
+
+      // Blank lines, indented code, reference definitions, HTML, table rules, thematic breaks
+      if (
+        !line.trim() ||
+        /^( {4}|\t)(?!\s*([-*+]|\d+[.)])\s)/.test(line) ||
+        /^\s*(\[[^\]]+\]:|<)/.test(line) ||
+        /^\s*\|?\s*:?-{3,}/.test(line) ||
+        /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)
+      ) {
+        return line;
+      }
+
+      const [, prefix, text, trailing] = line.match(
+        /^(\s*(?:>\s*)*(?:#{1,6}\s+|(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?)?)(.*?)(\s*)$/
+      )!;
+
+      // Inline code, link targets and reference labels are not text
+      const preserved: string[] = [];
+      const shielded = text.replace(/`+[^`]*`+|\]\([^)]*\)|\]\[[^\]]*\]/g, (match) => {
+        preserved.push(match);
+        return `__PRESERVE_${preserved.length - 1}__`;
+      });
+      const masked = maskAIPatterns(shielded, lineOptions).replace(
+        /__PRESERVE_(\d+)__/g,
+        (_match, index) => preserved[Number(index)]
+      );
+
+      return prefix + masked + trailing;
+    })
+    .join("\n");
+}
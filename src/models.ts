@@ -0,0 +1,246 @@
+/**
+ * Model Registry
+ * ==============
+ * Pricing, context window and output limits per model.
+ * Cost calculation, estimates and chunk sizing all read from here.
+ *
+ * @example
+ * ```typescript
+ * registerModel("my-gateway-model", {
+ *   input: 1.0,
+ *   output: 3.0,
+ *   contextWindow: 128_000,
+ *   maxOutputTokens: 8_192,
+ * });
+ *
+ * setUnknownModelPolicy("error"); // Fail fast on typos instead of guessing prices
+ * ```
+ */
+
+import { ValidationError } from "./types.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** USD per 1M tokens */
+export interface ModelPricing {
+  /** Uncached input tokens */
+  input: number;
+  /** Output tokens */
+  output: number;
+  /** Cached input tokens (defaults to the input price) */
+  cachedInput?: number;
+}
+
+export interface ModelInfo extends ModelPricing {
+  /** Context window in tokens (input + output) */
+  contextWindow: number;
+  /** Maximum output tokens per request */
+  maxOutputTokens: number;
+}
+
+/**
+ * What to do with models that are not in the registry:
+ * - "fallback": use DEFAULT_MODEL_INFO silently (default)
+ * - "warn": use DEFAULT_MODEL_INFO and call `onWarning` once per model
+ * - "error": throw ValidationError
+ * - function: resolve the model yourself
+ */
+export type UnknownModelPolicy =
+  | "fallback"
+  | "warn"
+  | "error"
+  | ((model: string) => ModelInfo);
+
+export interface UnknownModelPolicyOptions {
+  /** Receives the "warn" policy's warnings (the library never logs itself) */
+  onWarning?: (message: string, model: string) => void;
+}
+
+// =============================================================================
+// BUILT-IN MODELS
+// =============================================================================
+
+const BUILTIN_MODELS: Record<string, ModelInfo> = {
+  // OpenAI
+  "gpt-4.1": { input: 2.0, cachedInput: 0.5, output: 8.0, contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6, contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4, contextWindow: 1_047_576, maxOutputTokens: 32_768 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10.0, contextWindow: 128_000, maxOutputTokens: 16_384 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6, contextWindow: 128_000, maxOutputTokens: 16_384 },
+  "gpt-4-turbo": { input: 10.0, output: 30.0, contextWindow: 128_000, maxOutputTokens: 4_096 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10.0, contextWindow: 400_000, maxOutputTokens: 128_000 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2.0, contextWindow: 400_000, maxOutputTokens: 128_000 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4, contextWindow: 400_000, maxOutputTokens: 128_000 },
+  "o3": { input: 2.0, cachedInput: 0.5, output: 8.0, contextWindow: 200_000, maxOutputTokens: 100_000 },
+  "o3-mini": { input: 1.1, cachedInput: 0.55, output: 4.4, contextWindow: 200_000, maxOutputTokens: 100_000 },
+  "o4-mini": { input: 1.1, cachedInput: 0.275, output: 4.4, contextWindow: 200_000, maxOutputTokens: 100_000 },
+  // Anthropic (cachedInput = cache reads)
+  "claude-opus-4-6": { input: 5.0, cachedInput: 0.5, output: 25.0, contextWindow: 200_000, maxOutputTokens: 128_000 },
+  "claude-sonnet-4-6": { input: 3.0, cachedInput: 0.3, output: 15.0, contextWindow: 200_000, maxOutputTokens: 64_000 },
+  "claude-opus-4-5": { input: 5.0, cachedInput: 0.5, output: 25.0, contextWindow: 200_000, maxOutputTokens: 64_000 },
+  "claude-sonnet-4-5": { input: 3.0, cachedInput: 0.3, output: 15.0, contextWindow: 200_000, maxOutputTokens: 64_000 },
+  "claude-haiku-4-5": { input: 1.0, cachedInput: 0.1, output: 5.0, contextWindow: 200_000, maxOutputTokens: 64_000 },
+  "claude-opus-4-1": { input: 15.0, cachedInput: 1.5, output: 75.0, contextWindow: 200_000, maxOutputTokens: 32_000 },
+  "claude-sonnet-4": { input: 3.0, cachedInput: 0.3, output: 15.0, contextWindow: 200_000, maxOutputTokens: 64_000 },
+  "claude-3-7-sonnet": { input: 3.0, cachedInput: 0.3, output: 15.0, contextWindow: 200_000, maxOutputTokens: 64_000 },
+  "claude-3-5-haiku": { input: 0.8, cachedInput: 0.08, output: 4.0, contextWindow: 200_000, maxOutputTokens: 8_192 },
+};
+
+/** Conservative entry used for unknown models under the "fallback"/"warn" policies */
+export const DEFAULT_MODEL_INFO: Readonly<ModelInfo> = {
+  input: 5.0,
+  output: 15.0,
+  contextWindow: 128_000,
+  maxOutputTokens: 4_096,
+};
+
+/**
+ * Built-in pricing table (snapshot).
+ * @deprecated Use getModelInfo() / registerModel() - this table is not updated at runtime.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  ...Object.fromEntries(
+    Object.entries(BUILTIN_MODELS).map(([id, { input, output, cachedInput }]) => [
+      id,
+      { input, output, cachedInput },
+    ])
+  ),
+  default: { input: DEFAULT_MODEL_INFO.input, output: DEFAULT_MODEL_INFO.output },
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const registry = new Map<string, ModelInfo>(Object.entries(BUILTIN_MODELS));
+const warnedModels = new Set<string>();
+let unknownModelPolicy: UnknownModelPolicy = "fallback";
+let onUnknownModelWarning: UnknownModelPolicyOptions["onWarning"];
+
+function validateModelInfo(id: string, info: ModelInfo): void {
+  const numbers: Array<[string, number | undefined]> = [
+    ["input", info.input],
+    ["output", info.output],
+    ["cachedInput", info.cachedInput],
+    ["contextWindow", info.contextWindow],
+    ["maxOutputTokens", info.maxOutputTokens],
+  ];
+  for (const [field, value] of numbers) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      throw new ValidationError(`Invalid ${field} for model ${id}`);
+    }
+  }
+  if (info.contextWindow <= 0 || info.maxOutputTokens <= 0) {
+    throw new ValidationError(`Model ${id} needs a positive context window and output limit`);
+  }
+}
+
+/** Exact id first, then the longest registered prefix (dated snapshots). */
+function lookup(model: string): ModelInfo | undefined {
+  const exact = registry.get(model);
+  if (exact) {
+    return exact;
+  }
+
+  let best: string | undefined;
+  for (const id of registry.keys()) {
+    if (model.startsWith(id) && (!best || id.length > best.length)) {
+      best = id;
+    }
+  }
+  return best ? registry.get(best) : undefined;
+}
+
+/**
+ * Add or replace a model in the registry.
+ * Ids also match dated snapshots ("my-model" matches "my-model-2025-01-01").
+ */
+export function registerModel(id: string, info: ModelInfo): void {
+  if (!id) {
+    throw new ValidationError("Model id is required");
+  }
+  validateModelInfo(id, info);
+  registry.set(id, { ...info });
+  warnedModels.delete(id);
+}
+
+/**
+ * Remove a model from the registry. Returns whether it was registered.
+ */
+export function unregisterModel(id: string): boolean {
+  return registry.delete(id);
+}
+
+/**
+ * Whether a model resolves to a registry entry (exactly or by prefix).
+ */
+export function isKnownModel(model: string): boolean {
+  return lookup(model) !== undefined;
+}
+
+/**
+ * Get model information, applying the unknown model policy if needed.
+ */
+export function getModelInfo(model: string): ModelInfo {
+  const known = lookup(model);
+  if (known) {
+    return { ...known };
+  }
+
+  if (typeof unknownModelPolicy === "function") {
+    const resolved = unknownModelPolicy(model);
+    validateModelInfo(model, resolved);
+    return { ...resolved };
+  }
+
+  switch (unknownModelPolicy) {
+    case "error":
+      throw new ValidationError(`Unknown model: ${model}. Register it with registerModel()`, {
+        model,
+      });
+    case "warn":
+      if (!warnedModels.has(model)) {
+        warnedModels.add(model);
+        onUnknownModelWarning?.(`Unknown model "${model}", using default pricing and limits`, model);
+      }
+      return { ...DEFAULT_MODEL_INFO };
+    default:
+      return { ...DEFAULT_MODEL_INFO };
+  }
+}
+
+/**
+ * Get pricing for a model (USD per 1M tokens).
+ */
+export function getModelPricing(model: string): ModelPricing {
+  const { input, output, cachedInput } = getModelInfo(model);
+  return { input, output, cachedInput };
+}
+
+/**
+ * Set how unknown models are handled (default: "fallback").
+ *
+ * @example
+ * ```typescript
+ * setUnknownModelPolicy("warn", { onWarning: (message) => logger.warn(message) });
+ * ```
+ */
+export function setUnknownModelPolicy(
+  policy: UnknownModelPolicy,
+  options: UnknownModelPolicyOptions = {}
+): void {
+  unknownModelPolicy = policy;
+  onUnknownModelWarning = options.onWarning;
+  warnedModels.clear();
+}
+
+/**
+ * All registered models.
+ */
+export function listModels(): Record<string, ModelInfo> {
+  return Object.fromEntries(
+    [...registry.entries()].map(([id, info]) => [id, { ...info }])
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * Anthropic Provider
+ * ==================
+ * Implementation for Anthropic Messages API integration.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  ProviderConfig,
+  ProgressCallback,
+  RewriteProvider,
+  CompletionRequest,
+  CompletionResponse,
+} from "../types.js";
+import { ProviderError, RateLimitError } from "../types.js";
+import { DEFAULTS } from "../constants.js";
+import {
+  rewriteWithProvider,
+  rewriteLargeContentWithProvider,
+  generateVariantsWithProvider,
+  type ProviderRewriteOptions,
+  type ProviderRewriteResult,
+} from "./pipeline.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type AnthropicRewriteOptions = ProviderRewriteOptions;
+
+export type AnthropicRewriteResult = ProviderRewriteResult;
+
+// =============================================================================
+// CLIENT MANAGEMENT
+// =============================================================================
+
+let clientCache: WeakMap<ProviderConfig, Anthropic> = new WeakMap();
+
+function getClient(config: ProviderConfig): Anthropic {
+  let client = clientCache.get(config);
+  if (!client) {
+    const apiKey = config.apiKey?.trim();
+    if (!apiKey) {
+      throw new ProviderError("Anthropic API key is required", "anthropic");
+    }
+
+    if (/[^\x00-\x7F]/.test(apiKey)) {
+      throw new ProviderError(
+        "Anthropic API key contains invalid characters",
+        "anthropic"
+      );
+    }
+
+    client = new Anthropic({
+      apiKey,
+      // Root URL without the /v1 suffix (e.g. "http://localhost:8080")
+      baseURL: config.baseUrl,
+      dangerouslyAllowBrowser: true,
+    });
+    clientCache.set(config, client);
+  }
+  return client;
+}
+
+// =============================================================================
+// COMPLETIONS
+// =============================================================================
+
+function mapAnthropicError(error: unknown): unknown {
+  if (error instanceof Anthropic.APIUserAbortError) {
+    return new ProviderError("Request aborted", "anthropic", { code: "aborted" });
+  }
+  if (error instanceof Anthropic.APIError) {
+    if (error.status === 429) {
+      const retryAfter = parseInt(error.headers?.get("retry-after") || "0", 10);
+      return new RateLimitError("anthropic", retryAfter || undefined);
+    }
+
+    let errorMessage = error.message || `Anthropic API error: ${error.status}`;
+    const errorBody = error.error as { error?: { message?: string; type?: string } } | undefined;
+    if (errorBody?.error?.message) {
+      errorMessage = errorBody.error.message;
+    }
+
+    return new ProviderError(
+      errorMessage,
+      "anthropic",
+      { status: error.status, code: errorBody?.error?.type || error.type || undefined }
+    );
+  }
+  return error;
+}
+
+async function complete(
+  client: Anthropic,
+  model: string,
+  request: CompletionRequest
+): Promise<CompletionResponse> {
+  // Messages API takes the system prompt as a separate parameter
+  const system = request.messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+  const messages = request.messages
+    .filter((message) => message.role !== "system")
+    .map((message) => ({
+      role: message.role as "user" | "assistant",
+      content: message.content,
+    }));
+
+  // Anthropic accepts temperature in 0-1 and rejects temperature + top_p together
+  const params = {
+    model,
+    system: system || undefined,
+    messages,
+    max_tokens: request.maxTokens,
+    temperature: Math.min(request.temperature, 1),
+  };
+
+  if (request.onDelta) {
+    return completeStream(client, model, params, request, request.onDelta);
+  }
+
+  try {
+    const response = await client.messages.create(params, { signal: request.signal, maxRetries: 0 });
+
+    const text = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    // input_tokens excludes cache reads/writes; fold them in so inputTokens is the full prompt
+    const cacheRead = response.usage?.cache_read_input_tokens ?? 0;
+    const cacheWrite = response.usage?.cache_creation_input_tokens ?? 0;
+
+    return {
+      text,
+      usage: {
+        inputTokens: (response.usage?.input_tokens ?? 0) + cacheRead + cacheWrite,
+        outputTokens: response.usage?.output_tokens ?? 0,
+        cachedInputTokens: cacheRead,
+      },
+      model,
+    };
+  } catch (error) {
+    throw mapAnthropicError(error);
+  }
+}
+
+async function completeStream(
+  client: Anthropic,
+  model: string,
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  request: CompletionRequest,
+  onDelta: (delta: string) => void
+): Promise<CompletionResponse> {
+  try {
+    const stream = await client.messages.create(
+      { ...params, stream: true },
+      { signal: request.signal, maxRetries: 0 }
+    );
+
+    let text = "";
+    let inputTokens = 0;
+    let cacheRead = 0;
+    let cacheWrite = 0;
+    let outputTokens = 0;
+    for await (const event of stream) {
+      if (event.type === "message_start") {
+        const usage = event.message.usage;
+        inputTokens = usage.input_tokens ?? 0;
+        cacheRead = usage.cache_read_input_tokens ?? 0;
+        cacheWrite = usage.cache_creation_input_tokens ?? 0;
+        outputTokens = usage.output_tokens ?? 0;
+      } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        text += event.delta.text;
+        onDelta(event.delta.text);
+      } else if (event.type === "message_delta") {
+        // Output usage is cumulative
+        outputTokens = event.usage.output_tokens ?? outputTokens;
+      }
+    }
+
+    return {
+      text,
+      usage: {
+        inputTokens: inputTokens + cacheRead + cacheWrite,
+        outputTokens,
+        cachedInputTokens: cacheRead,
+      },
+      model,
+    };
+  } catch (error) {
+    throw mapAnthropicError(error);
+  }
+}
+
+let providerCache: WeakMap<ProviderConfig, RewriteProvider> = new WeakMap();
+
+/**
+ * Create a pipeline provider backed by the Anthropic Messages API.
+ * Requests with `onDelta` use the streaming API.
+ */
+export function createAnthropicProvider(config: ProviderConfig): RewriteProvider {
+  let provider = providerCache.get(config);
+  if (!provider) {
+    const client = getClient(config);
+    const model = config.model || DEFAULTS.ANTHROPIC_MODEL;
+
+    provider = {
+      type: "anthropic",
+      model,
+      completeContent: (request) => complete(client, model, request),
+      completeTitle: (request) => complete(client, model, request),
+      completeDescription: (request) => complete(client, model, request),
+    };
+    providerCache.set(config, provider);
+  }
+  return provider;
+}
+
+// =============================================================================
+// MAIN REWRITE FUNCTION
+// =============================================================================
+
+export async function rewriteWithAnthropic(
+  config: ProviderConfig,
+  options: AnthropicRewriteOptions
+): Promise<AnthropicRewriteResult> {
+  return rewriteWithProvider(createAnthropicProvider(config), options);
+}
+
+// =============================================================================
+// LARGE CONTENT REWRITE (CHUNKED)
+// =============================================================================
+
+export async function rewriteLargeContentWithAnthropic(
+  config: ProviderConfig,
+  options: AnthropicRewriteOptions & {
+    onProgress?: ProgressCallback;
+    variantIndex?: number;
+    totalVariants?: number;
+  }
+): Promise<AnthropicRewriteResult> {
+  return rewriteLargeContentWithProvider(createAnthropicProvider(config), options);
+}
+
+// =============================================================================
+// MULTIPLE VARIANTS
+// =============================================================================
+
+export async function generateVariantsWithAnthropic(
+  config: ProviderConfig,
+  options: AnthropicRewriteOptions & {
+    variantCount: number;
+    onProgress?: ProgressCallback;
+    onVariantComplete?: (result: AnthropicRewriteResult, index: number) => void;
+  }
+): Promise<AnthropicRewriteResult[]> {
+  return generateVariantsWithProvider(createAnthropicProvider(config), options);
+}
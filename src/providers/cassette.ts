@@ -0,0 +1,29 @@
+/**
+ * Cassette Files
+ * ==============
+ * Node.js helpers to persist mock provider cassettes as JSON files.
+ */
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { ValidationError } from "../types.js";
+import type { Cassette } from "./mock.js";
+
+/**
+ * Load a cassette recorded with createRecordingProvider.
+ */
+export async function loadCassette(path: string): Promise<Cassette> {
+  const parsed = JSON.parse(await readFile(path, "utf8")) as Partial<Cassette>;
+  if (parsed.version !== 1 || !Array.isArray(parsed.entries)) {
+    throw new ValidationError(`Invalid cassette file: ${path}`);
+  }
+  return parsed as Cassette;
+}
+
+/**
+ * Save a cassette as pretty-printed JSON (creates parent directories).
+ */
+export async function saveCassette(path: string, cassette: Cassette): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(cassette, null, 2) + "\n", "utf8");
+}
@@ -0,0 +1,213 @@
+/**
+ * Failover Provider
+ * =================
+ * Ordered provider chain: requests go to the first healthy provider and
+ * move down the chain on rate limits, server errors or network failures.
+ * Failed providers sit out a cooldown before they are tried first again.
+ */
+
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  RewriteProvider,
+  FailoverOptions,
+  FailoverTrigger,
+  ProviderHealth,
+} from "../types.js";
+import { ProviderError, RateLimitError, ValidationError } from "../types.js";
+import { isAbortError } from "./retry.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface FailoverProvider extends RewriteProvider {
+  /** Current health of every provider in the chain */
+  getHealth(): ProviderHealth[];
+  /** Put every provider back in rotation */
+  resetHealth(): void;
+}
+
+// =============================================================================
+// ERROR CLASSIFICATION
+// =============================================================================
+
+const DEFAULT_TRIGGERS: FailoverTrigger[] = ["rate_limit", "server_error", "network"];
+
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/**
+ * Classify an error into a failover trigger category (or null if it
+ * should never switch providers, e.g. cancellation).
+ */
+export function classifyFailoverError(error: unknown): FailoverTrigger | null {
+  if (isAbortError(error)) {
+    return null;
+  }
+  if (error instanceof RateLimitError) {
+    return "rate_limit";
+  }
+  if (error instanceof ProviderError) {
+    const details = error.details as { status?: number } | undefined;
+    if (details?.status && details.status >= 500) {
+      return "server_error";
+    }
+    if (!details?.status) {
+      return "network";
+    }
+    return "any";
+  }
+  return "network";
+}
+
+function shouldFailover(
+  error: unknown,
+  failoverOn: FailoverOptions["failoverOn"] = DEFAULT_TRIGGERS
+): boolean {
+  if (typeof failoverOn === "function") {
+    return !isAbortError(error) && failoverOn(error);
+  }
+  const category = classifyFailoverError(error);
+  if (!category) {
+    return false;
+  }
+  return failoverOn.includes("any") || failoverOn.includes(category);
+}
+
+// =============================================================================
+// FAILOVER PROVIDER
+// =============================================================================
+
+/**
+ * Chain several providers with failover.
+ * Responses report the provider and model that actually served them.
+ *
+ * @example
+ * ```typescript
+ * const provider = createFailoverProvider(
+ *   [createOpenAIProvider(openaiConfig), createAnthropicProvider(anthropicConfig)],
+ *   { cooldownMs: 30_000 }
+ * );
+ * ```
+ */
+export function createFailoverProvider(
+  providers: RewriteProvider[],
+  options: FailoverOptions = {}
+): FailoverProvider {
+  if (providers.length === 0) {
+    throw new ValidationError("Failover chain requires at least one provider");
+  }
+
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  const health = providers.map(() => ({
+    unhealthyUntil: 0,
+    lastFailureAt: 0,
+    consecutiveFailures: 0,
+    lastError: undefined as unknown,
+  }));
+
+  /** Healthy providers in chain order, then cooling-down ones by soonest recovery */
+  const attemptOrder = (): number[] => {
+    const now = Date.now();
+    const healthy: number[] = [];
+    const cooling: number[] = [];
+    providers.forEach((_, i) => {
+      (health[i].unhealthyUntil <= now ? healthy : cooling).push(i);
+    });
+    cooling.sort((a, b) => health[a].unhealthyUntil - health[b].unhealthyUntil);
+    return [...healthy, ...cooling];
+  };
+
+  const complete = async (
+    request: CompletionRequest,
+    call: (provider: RewriteProvider, request: CompletionRequest) => Promise<CompletionResponse>
+  ): Promise<CompletionResponse> => {
+    const order = attemptOrder();
+    let lastError: unknown;
+    let streamed = false;
+    const { onDelta } = request;
+    if (onDelta) {
+      request = {
+        ...request,
+        onDelta: (delta) => {
+          streamed = true;
+          onDelta(delta);
+        },
+      };
+    }
+
+    for (let attempt = 0; attempt < order.length; attempt++) {
+      const index = order[attempt];
+      const provider = providers[index];
+
+      // The next provider streams its own text from the start
+      if (streamed) {
+        streamed = false;
+        request.onRestart?.();
+      }
+
+      const startedAt = Date.now();
+      try {
+        const response = await call(provider, request);
+        // Requests already in flight when the provider failed do not prove recovery
+        if (startedAt >= health[index].lastFailureAt) {
+          health[index].unhealthyUntil = 0;
+          health[index].consecutiveFailures = 0;
+        }
+        return {
+          ...response,
+          provider: response.provider || provider.type,
+          model: response.model || provider.model,
+        };
+      } catch (error) {
+        lastError = error;
+        if (!shouldFailover(error, options.failoverOn)) {
+          throw error;
+        }
+
+        health[index].lastFailureAt = Date.now();
+        health[index].unhealthyUntil = health[index].lastFailureAt + cooldownMs;
+        health[index].consecutiveFailures++;
+        health[index].lastError = error;
+
+        const next = order[attempt + 1];
+        if (next !== undefined) {
+          options.onFailover?.({ from: index, to: next, error });
+        }
+      }
+    }
+
+    throw lastError;
+  };
+
+  return {
+    type: providers[0].type,
+    model: providers[0].model,
+    models: [...new Set(providers.flatMap((provider) => provider.models ?? [provider.model]))],
+    completeContent: (request) => complete(request, (p, r) => p.completeContent(r)),
+    completeTitle: (request) => complete(request, (p, r) => p.completeTitle(r)),
+    completeDescription: (request) =>
+      complete(request, (p, r) => p.completeDescription(r)),
+    getHealth() {
+      const now = Date.now();
+      return providers.map((provider, index) => ({
+        index,
+        type: provider.type,
+        model: provider.model,
+        healthy: health[index].unhealthyUntil <= now,
+        unhealthyUntil:
+          health[index].unhealthyUntil > now ? health[index].unhealthyUntil : undefined,
+        consecutiveFailures: health[index].consecutiveFailures,
+        lastError: health[index].lastError,
+      }));
+    },
+    resetHealth() {
+      for (const entry of health) {
+        entry.unhealthyUntil = 0;
+        entry.lastFailureAt = 0;
+        entry.consecutiveFailures = 0;
+        entry.lastError = undefined;
+      }
+    },
+  };
+}
@@ -7,6 +7,54 @@ export {
   rewriteWithOpenAI,
   rewriteLargeContentWithOpenAI,
   generateVariantsWithOpenAI,
+  createOpenAIProvider,
   type OpenAIRewriteOptions,
   type OpenAIRewriteResult,
 } from "./openai.js";
+
+export {
+  submitOpenAIBatch,
+  getOpenAIBatchStatus,
+  collectOpenAIBatch,
+  waitForOpenAIBatch,
+  type OpenAIBatchItem,
+  type OpenAIBatchSubmitOptions,
+} from "./openai-batch.js";
+
+export {
+  rewriteWithAnthropic,
+  rewriteLargeContentWithAnthropic,
+  generateVariantsWithAnthropic,
+  createAnthropicProvider,
+  type AnthropicRewriteOptions,
+  type AnthropicRewriteResult,
+} from "./anthropic.js";
+
+export {
+  createMockProvider,
+  createRecordingProvider,
+  cassetteKey,
+  type MockProvider,
+  type MockProviderOptions,
+  type MockResponse,
+  type MockScript,
+  type MockCall,
+  type RecordingProvider,
+  type Cassette,
+  type CassetteEntry,
+  type CompletionKind,
+} from "./mock.js";
+
+export {
+  withRetry,
+  getRetryDelay,
+  isAbortError,
+} from "./retry.js";
+
+export { createRateLimiter } from "./rate-limiter.js";
+
+export {
+  createFailoverProvider,
+  classifyFailoverError,
+  type FailoverProvider,
+} from "./failover.js";
@@ -0,0 +1,324 @@
+/**
+ * Mock Provider
+ * =============
+ * Deterministic offline provider for testing pipelines around ContentRewriter.
+ *
+ * - Scripted mode returns canned responses per request kind.
+ * - Requests with `onDelta` receive the response word by word.
+ * - Replay mode serves responses from a recorded cassette, keyed by the
+ *   request messages. Record cassettes from real runs with createRecordingProvider.
+ */
+
+import type {
+  ChatMessage,
+  CompletionKind,
+  CompletionRequest,
+  CompletionResponse,
+  CompletionUsage,
+  ProviderType,
+  RewriteProvider,
+} from "../types.js";
+import { ProviderError } from "../types.js";
+import { DEFAULTS } from "../constants.js";
+import { estimateTokens, hashString, sleep } from "../utils.js";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type { CompletionKind };
+
+export interface MockResponse {
+  /** Completion text */
+  text?: string;
+  /** Token usage (estimated from messages and text if omitted) */
+  usage?: Partial<CompletionUsage>;
+  /** Model to report (defaults to the provider model) */
+  model?: string;
+  /** Error to throw instead of responding */
+  error?: unknown;
+  /** Simulated latency (ms) */
+  delayMs?: number;
+}
+
+/**
+ * Scripted responses for one request kind:
+ * a single response, a queue (the last one repeats), or a function.
+ */
+export type MockScript =
+  | string
+  | MockResponse
+  | Array<string | MockResponse>
+  | ((request: CompletionRequest, callIndex: number) => string | MockResponse);
+
+export interface CassetteEntry {
+  /** Request kind */
+  kind: CompletionKind;
+  /** Hash of kind + messages */
+  key: string;
+  /** Request messages (kept for readability and debugging) */
+  messages: ChatMessage[];
+  /** Recorded response */
+  response: {
+    text: string;
+    usage: CompletionUsage;
+    model?: string;
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  entries: CassetteEntry[];
+}
+
+export interface MockCall {
+  kind: CompletionKind;
+  request: CompletionRequest;
+  response: CompletionResponse;
+}
+
+export type MockProviderOptions = {
+  /** Model used for cost calculation (default: "gpt-4.1") */
+  model?: string;
+  /** Provider type reported in errors (default: "custom") */
+  type?: ProviderType;
+} & (
+  | {
+      mode: "scripted";
+      /**
+       * Responses per request kind (stitch requests use the content script).
+       * Unscripted kinds echo the last user message.
+       */
+      responses?: Partial<Record<CompletionKind, MockScript>>;
+    }
+  | {
+      mode: "replay";
+      /** Recorded cassette to serve responses from */
+      cassette: Cassette;
+    }
+);
+
+export interface MockProvider extends RewriteProvider {
+  /** Every completed call, in order */
+  readonly calls: MockCall[];
+  /** Clear call log and script/replay positions */
+  reset(): void;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Cassette key for a request: hash of kind + messages.
+ * Sampling parameters and signals do not affect the key.
+ */
+export function cassetteKey(kind: CompletionKind, messages: ChatMessage[]): string {
+  return hashString(JSON.stringify([kind, messages]));
+}
+
+function estimateUsage(messages: ChatMessage[], text: string, model: string): CompletionUsage {
+  return {
+    inputTokens: messages.reduce((sum, m) => sum + estimateTokens(m.content, model), 0),
+    outputTokens: estimateTokens(text, model),
+  };
+}
+
+function lastUserMessage(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") {
+      return messages[i].content;
+    }
+  }
+  return "";
+}
+
+function resolveScript(
+  script: MockScript | undefined,
+  request: CompletionRequest,
+  callIndex: number
+): MockResponse {
+  if (script === undefined) {
+    return { text: lastUserMessage(request.messages) };
+  }
+  let entry: string | MockResponse;
+  if (typeof script === "function") {
+    entry = script(request, callIndex);
+  } else if (Array.isArray(script)) {
+    if (script.length === 0) {
+      return { text: "" };
+    }
+    entry = script[Math.min(callIndex, script.length - 1)];
+  } else {
+    entry = script;
+  }
+  return typeof entry === "string" ? { text: entry } : entry;
+}
+
+// =============================================================================
+// MOCK PROVIDER
+// =============================================================================
+
+/**
+ * Create a deterministic mock provider.
+ *
+ * @example
+ * ```typescript
+ * const provider = createMockProvider({
+ *   mode: "scripted",
+ *   responses: {
+ *     content: "<h1>Rewritten</h1><p>Body</p>",
+ *     title: ["First title", "Second title"],
+ *   },
+ * });
+ * const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider });
+ * ```
+ */
+export function createMockProvider(options: MockProviderOptions): MockProvider {
+  const model = options.model || DEFAULTS.MODEL;
+  const type = options.type || "custom";
+  const calls: MockCall[] = [];
+  const scriptPositions = new Map<CompletionKind, number>();
+  const replayPositions = new Map<string, number>();
+
+  const replayIndex = new Map<string, CassetteEntry[]>();
+  if (options.mode === "replay") {
+    for (const entry of options.cassette.entries) {
+      const list = replayIndex.get(entry.key) || [];
+      list.push(entry);
+      replayIndex.set(entry.key, list);
+    }
+  }
+
+  const respond = (kind: CompletionKind, request: CompletionRequest): MockResponse => {
+    if (options.mode === "scripted") {
+      const position = scriptPositions.get(kind) ?? 0;
+      scriptPositions.set(kind, position + 1);
+      return resolveScript(options.responses?.[kind], request, position);
+    }
+
+    const key = cassetteKey(kind, request.messages);
+    const entries = replayIndex.get(key);
+    if (!entries || entries.length === 0) {
+      throw new ProviderError(`No cassette entry for ${kind} request`, type, {
+        code: "cassette_miss",
+        key,
+      });
+    }
+    // Identical requests (e.g. several variants) replay in order, the last one repeats
+    const position = replayPositions.get(key) ?? 0;
+    replayPositions.set(key, position + 1);
+    const entry = entries[Math.min(position, entries.length - 1)];
+    return { ...entry.response };
+  };
+
+  const complete = async (
+    kind: CompletionKind,
+    request: CompletionRequest
+  ): Promise<CompletionResponse> => {
+    const mock = respond(kind, request);
+
+    if (mock.delayMs) {
+      // Ends early on abort; the check below rejects like a real provider
+      await sleep(mock.delayMs, request.signal);
+    }
+    if (request.signal?.aborted) {
+      throw new ProviderError("Request aborted", type, { code: "aborted" });
+    }
+    if (mock.error !== undefined) {
+      throw mock.error;
+    }
+
+    const text = mock.text ?? "";
+    if (request.onDelta) {
+      // Stream word by word, like a real provider
+      for (const piece of text.match(/\s*\S+/g) || []) {
+        request.onDelta(piece);
+      }
+      const trailing = text.match(/\s+$/);
+      if (trailing) {
+        request.onDelta(trailing[0]);
+      }
+    }
+    const estimated = estimateUsage(request.messages, text, mock.model || model);
+    const response: CompletionResponse = {
+      text,
+      usage: {
+        inputTokens: mock.usage?.inputTokens ?? estimated.inputTokens,
+        outputTokens: mock.usage?.outputTokens ?? estimated.outputTokens,
+        cachedInputTokens: mock.usage?.cachedInputTokens,
+      },
+      model: mock.model || model,
+    };
+
+    calls.push({ kind, request, response });
+    return response;
+  };
+
+  return {
+    type,
+    model,
+    calls,
+    completeContent: (request) => complete("content", request),
+    completeTitle: (request) => complete("title", request),
+    completeDescription: (request) => complete("description", request),
+    reset() {
+      calls.length = 0;
+      scriptPositions.clear();
+      replayPositions.clear();
+    },
+  };
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+export interface RecordingProvider extends RewriteProvider {
+  /** Cassette with every successful call recorded so far */
+  cassette(): Cassette;
+}
+
+/**
+ * Wrap a real provider and record its responses into a cassette
+ * that createMockProvider can replay.
+ *
+ * @example
+ * ```typescript
+ * const recorder = createRecordingProvider(createOpenAIProvider(config));
+ * await new ContentRewriter({ provider: "custom", customProvider: recorder }).rewrite(html);
+ * await saveCassette("fixtures/article.json", recorder.cassette());
+ * ```
+ */
+export function createRecordingProvider(inner: RewriteProvider): RecordingProvider {
+  const entries: CassetteEntry[] = [];
+
+  const record = async (
+    kind: CompletionKind,
+    request: CompletionRequest,
+    call: (request: CompletionRequest) => Promise<CompletionResponse>
+  ): Promise<CompletionResponse> => {
+    const response = await call(request);
+    entries.push({
+      kind,
+      key: cassetteKey(kind, request.messages),
+      messages: request.messages,
+      response: {
+        text: response.text,
+        usage: { ...response.usage },
+        model: response.model,
+      },
+    });
+    return response;
+  };
+
+  return {
+    type: inner.type,
+    model: inner.model,
+    completeContent: (request) => record("content", request, (r) => inner.completeContent(r)),
+    completeTitle: (request) => record("title", request, (r) => inner.completeTitle(r)),
+    completeDescription: (request) =>
+      record("description", request, (r) => inner.completeDescription(r)),
+    cassette: () => ({ version: 1, entries: [...entries] }),
+  };
+}
@@ -0,0 +1,2068 @@
+/**
+ * Rewrite Pipeline
+ * ================
+ * Provider-agnostic rewrite logic: prompts, chunking, variant fan-out,
+ * retries and cost tracking. Providers only implement completions.
+ */
+
+import type {
+  CacheStore,
+  ChatMessage,
+  CompletionKind,
+  CompletionRequest,
+  JsonSchemaFormat,
+  ProgressCallback,
+  ProviderType,
+  RateLimiter,
+  RetryPolicy,
+  RewriteProvider,
+  CompletionResponse,
+  ContentFormat,
+  FactPolicy,
+  RewritePlaceholders,
+  StructurePolicy,
+  UsageBreakdown,
+  UsageEntry,
+  UsageTotals,
+} from "../types.js";
+import { BudgetExceededError, ProviderError, ValidationError } from "../types.js";
+import {
+  DEFAULTS,
+  LIMITS,
+  PROCESSING,
+  DEFAULT_REWRITE_PROMPT,
+} from "../constants.js";
+import { getModelInfo, getModelPricing } from "../models.js";
+import {
+  clampHtml,
+  clampMarkdown,
+  clampString,
+  estimateTokens,
+  hashString,
+  detectFormat,
+  parseAiResponse,
+  removeBoundaryRepeats,
+  splitContentBlocks,
+  splitIntoHtmlChunks,
+  splitIntoMarkdownChunks,
+  splitMarkdownBlocks,
+  splitIntoTokenChunks,
+  processInBatches,
+  type ParsedResponse,
+} from "../utils.js";
+import { compareHtmlStructure } from "../structure.js";
+import { compareFacts } from "../facts.js";
+import { ensureMarkdown } from "../markdown.js";
+import { protectLinks, restoreLinks } from "../links.js";
+import { protectTerms, restoreTerms } from "../terms.js";
+import { isAbortError, isFatalError, withRetry } from "./retry.js";
+
+export { isFatalError };
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface ProviderRewriteOptions {
+  content: string;
+  /** Content format (default: detected); Markdown is rewritten as Markdown, anything else as HTML */
+  format?: ContentFormat;
+  title?: string;
+  description?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /** Retry policy for every completion (default: 5 attempts with backoff) */
+  retry?: RetryPolicy;
+  /** Client-side RPM/TPM limiter every completion attempt waits on */
+  rateLimiter?: RateLimiter;
+  /** Called when a completion waited on the rate limiter (ms) */
+  onRateLimitWait?: (waitMs: number) => void;
+  /** Spend limit shared by every completion of the rewrite */
+  budget?: CostBudget;
+  /** Called after every completed request (cache hits excluded) */
+  onUsage?: (entry: UsageEntry) => void;
+  /** Completion cache; hits cost nothing and skip the rate limiter and budget */
+  cache?: CacheStore;
+  /** Variant index (0-based), part of cache keys so variants stay distinct */
+  variantIndex?: number;
+  /** Store for chunk, title and description checkpoints of chunked rewrites */
+  checkpointStore?: CacheStore;
+  /** Checkpoint job id; a rerun with the same id resumes the missing chunks */
+  jobId?: string;
+  /** Receive partial content and finished title/description as they are generated */
+  onStream?: (event: ProviderStreamEvent) => void;
+  /** Generate title, description and html in one JSON completion */
+  structuredOutput?: boolean;
+  /** Coherence pass over chunk boundaries after a chunked rewrite */
+  stitch?: boolean;
+  /** Regenerate HTML content or chunks whose structure does not match the input */
+  structurePolicy?: StructurePolicy;
+  /** Regenerate content or chunks that lose or change numbers, dates and other facts */
+  factPolicy?: FactPolicy;
+  /** Send links to the provider as placeholders and restore them in the result */
+  protectLinks?: boolean;
+  /** Send these exact phrases to the provider as placeholders and restore them in the result */
+  protectedTerms?: string[];
+}
+
+export interface ProviderStreamEvent {
+  field: "content" | "title" | "description";
+  /** Content generated so far, or the finished title/description */
+  text: string;
+}
+
+export interface ProviderRewriteResult {
+  title: string;
+  description: string;
+  html: string;
+  cost: number;
+  /** Provider that produced the content */
+  provider: ProviderType;
+  /** Model that produced the content */
+  model: string;
+  /** Every request behind this result */
+  usage: UsageEntry[];
+}
+
+// =============================================================================
+// COST CALCULATION
+// =============================================================================
+
+/**
+ * Calculate cost in USD from token usage, using the model registry.
+ * Cached input tokens are part of inputTokens and billed at the cached rate.
+ */
+export function calculateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  cachedInputTokens: number = 0
+): number {
+  const pricing = getModelPricing(model);
+  const cached = Math.min(cachedInputTokens, inputTokens);
+  return (
+    ((inputTokens - cached) / 1_000_000) * pricing.input +
+    (cached / 1_000_000) * (pricing.cachedInput ?? pricing.input) +
+    (outputTokens / 1_000_000) * pricing.output
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, cost: 0, latencyMs: 0 };
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): void {
+  totals.requests++;
+  totals.inputTokens += entry.inputTokens;
+  totals.cachedInputTokens += entry.cachedInputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cost += entry.cost;
+  totals.latencyMs += entry.latencyMs;
+}
+
+/**
+ * Sum usage entries overall and per request type.
+ */
+export function summarizeUsage(entries: UsageEntry[]): UsageBreakdown {
+  const breakdown: UsageBreakdown = {
+    ...emptyTotals(),
+    byKind: {
+      content: emptyTotals(),
+      title: emptyTotals(),
+      description: emptyTotals(),
+      stitch: emptyTotals(),
+    },
+    entries: [...entries],
+  };
+  for (const entry of entries) {
+    addToTotals(breakdown, entry);
+    addToTotals(breakdown.byKind[entry.kind], entry);
+  }
+  return breakdown;
+}
+
+/**
+ * Estimate rewrite cost before running it.
+ * Pass the content itself for an exact token count; a character length
+ * falls back to the chars/3.5 approximation.
+ */
+export function estimateCost(
+  model: string,
+  content: string | number,
+  variants: number = 1
+): number {
+  const inputTokens =
+    typeof content === "string"
+      ? estimateTokens(content, model)
+      : Math.ceil(content / 3.5);
+  const outputTokens = Math.ceil(inputTokens * LIMITS.OUTPUT_TO_INPUT_RATIO);
+  return calculateCost(model, inputTokens, outputTokens) * variants;
+}
+
+// =============================================================================
+// TOKEN BUDGET
+// =============================================================================
+
+export interface TokenBudget {
+  /** Tokens taken by the prompt around the content (system, instructions, chunk context) */
+  promptTokens: number;
+  /** Output tokens available per call */
+  outputTokens: number;
+  /** Largest content (in tokens) that one call can rewrite */
+  maxContentTokens: number;
+}
+
+/** Per-message framing tokens added by chat formats */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+function countMessageTokens(messages: ChatMessage[], model: string): number {
+  return messages.reduce(
+    (sum, message) => sum + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, model),
+    0
+  );
+}
+
+/**
+ * How much content one rewrite call can take for a model.
+ *
+ * Content is limited by two things: its rewrite (~OUTPUT_TO_INPUT_RATIO times
+ * its size) must fit in the output limit with OUTPUT_SAFETY_MARGIN to spare,
+ * and prompt + content + output must fit in the context window.
+ *
+ * @param model - Model id (limits come from the model registry)
+ * @param prompt - Custom rewrite instructions (default prompt if empty)
+ * @param maxTokens - Requested output limit per call (default: DEFAULTS.MAX_TOKENS)
+ * @param chunked - Budget for a chunk call, which also carries overlap context
+ */
+export function getTokenBudget(
+  model: string,
+  prompt: string = "",
+  maxTokens: number = DEFAULTS.MAX_TOKENS,
+  chunked: boolean = false
+): TokenBudget {
+  const info = getModelInfo(model);
+  const outputTokens = Math.min(maxTokens, info.maxOutputTokens);
+
+  const messages = chunked
+    ? buildContentMessages(buildChunkInput("", ""), buildChunkPrompt(prompt))
+    : buildContentMessages("", prompt);
+  // Overlap context is capped in characters; budget one token per character to be safe
+  const promptTokens = countMessageTokens(messages, model) + (chunked ? LIMITS.CHUNK_OVERLAP : 0);
+
+  const maxContentTokens = Math.min(
+    Math.floor((outputTokens * LIMITS.OUTPUT_SAFETY_MARGIN) / LIMITS.OUTPUT_TO_INPUT_RATIO),
+    info.contextWindow - promptTokens - outputTokens
+  );
+  if (maxContentTokens <= 0) {
+    throw new ValidationError(
+      `Prompt and output limit leave no room for content in ${model}'s context window`,
+      { model, promptTokens, outputTokens, contextWindow: info.contextWindow }
+    );
+  }
+
+  return { promptTokens, outputTokens, maxContentTokens };
+}
+
+/**
+ * Model to size content for: the one with the least room for content among
+ * the models that may serve the provider's requests.
+ */
+function sizingModel(provider: RewriteProvider, prompt: string = "", maxTokens?: number): string {
+  const room = (model: string) => getTokenBudget(model, prompt, maxTokens, true).maxContentTokens;
+  return (provider.models ?? [provider.model]).reduce((smallest, model) =>
+    room(model) < room(smallest) ? model : smallest
+  );
+}
+
+/**
+ * Whether content has to be chunked: it does not fit the token budget of a single call.
+ */
+export function isLargeContent(
+  content: string,
+  model: string,
+  prompt: string = "",
+  maxTokens: number = DEFAULTS.MAX_TOKENS
+): boolean {
+  return estimateTokens(content, model) > getTokenBudget(model, prompt, maxTokens).maxContentTokens;
+}
+
+function responseCost(provider: RewriteProvider, response: CompletionResponse): number {
+  if (response.cost !== undefined) {
+    return response.cost;
+  }
+  return calculateCost(
+    response.model || provider.model,
+    response.usage.inputTokens,
+    response.usage.outputTokens,
+    response.usage.cachedInputTokens
+  );
+}
+
+/** Output token limit for a request, capped by the model's maximum. */
+function outputLimit(model: string, requested: number): number {
+  return Math.min(requested, getModelInfo(model).maxOutputTokens);
+}
+
+// =============================================================================
+// COST BUDGET
+// =============================================================================
+
+/** Spend tracking for one rewrite, shared by all its variants and chunks */
+export interface CostBudget {
+  /** Spend limit (USD) */
+  readonly maxCost: number;
+  /** Actual cost of finished completions (USD) */
+  spent: number;
+  /** Projected cost of completions in flight (USD) */
+  reserved: number;
+  /** Budget that ran out (this one or a parent); later requests fail immediately */
+  exceededBy?: CostBudget;
+  /** Called once when the budget is exceeded (e.g. to abort the remaining requests) */
+  onExceeded?: () => void;
+  /** Enclosing budget (e.g. an instance-wide limit) that every completion also counts against */
+  parent?: CostBudget;
+}
+
+export function createCostBudget(
+  maxCost: number,
+  options: { onExceeded?: () => void; parent?: CostBudget } = {}
+): CostBudget {
+  if (!(maxCost >= 0)) {
+    throw new ValidationError("maxCost must be a non-negative number", { maxCost });
+  }
+  return { maxCost, spent: 0, reserved: 0, ...options };
+}
+
+/** The budget and its parents, innermost first */
+function budgetChain(budget: CostBudget): CostBudget[] {
+  const chain: CostBudget[] = [];
+  for (let current: CostBudget | undefined = budget; current; current = current.parent) {
+    chain.push(current);
+  }
+  return chain;
+}
+
+/**
+ * Projected cost of a request: its prompt plus the expected rewrite
+ * (~OUTPUT_TO_INPUT_RATIO of the prompt, at most maxTokens).
+ */
+function projectRequestCost(model: string, request: CompletionRequest): number {
+  const inputTokens = countMessageTokens(request.messages, model);
+  const outputTokens = Math.min(
+    request.maxTokens,
+    Math.ceil(inputTokens * LIMITS.OUTPUT_TO_INPUT_RATIO)
+  );
+  return calculateCost(model, inputTokens, outputTokens);
+}
+
+function exceedBudget(
+  budget: CostBudget,
+  hit: CostBudget,
+  details: Record<string, unknown>
+): never {
+  if (!budget.exceededBy) {
+    budget.exceededBy = hit;
+    budget.onExceeded?.();
+  }
+  throw new BudgetExceededError(budget.exceededBy.maxCost, budget.exceededBy.spent, [], details);
+}
+
+// =============================================================================
+// PROVIDER CALLS
+// =============================================================================
+
+type CallOptions = Pick<
+  ProviderRewriteOptions,
+  | "signal"
+  | "retry"
+  | "rateLimiter"
+  | "onRateLimitWait"
+  | "budget"
+  | "onUsage"
+  | "cache"
+  | "variantIndex"
+> & {
+  /** Chunk index reported in usage entries */
+  chunk?: number;
+  /** Responses it rejects are not cached (default: any non-empty text) */
+  cacheable?: (text: string) => boolean;
+};
+
+// =============================================================================
+// COMPLETION CACHE
+// =============================================================================
+
+/** Bump when prompts or parsing change in ways that invalidate cached completions */
+const CACHE_VERSION = 1;
+
+interface CachedCompletion {
+  text: string;
+  provider?: ProviderType;
+  model?: string;
+}
+
+/**
+ * Cache key for a completion: hash of the request kind, model, variant
+ * index, messages (content and resolved prompt) and sampling settings.
+ */
+export function completionCacheKey(
+  kind: CompletionKind,
+  model: string,
+  request: CompletionRequest,
+  variantIndex: number = 0
+): string {
+  return `completion:${hashString(
+    JSON.stringify([
+      CACHE_VERSION,
+      kind,
+      model,
+      variantIndex,
+      request.messages,
+      request.temperature,
+      request.maxTokens,
+      request.topP ?? null,
+      request.frequencyPenalty ?? null,
+      request.presencePenalty ?? null,
+      request.responseFormat ?? null,
+    ])
+  )}`;
+}
+
+/** Cached completion, or undefined on a miss. Store errors count as misses. */
+async function readCache(store: CacheStore, key: string): Promise<CachedCompletion | undefined> {
+  try {
+    const raw = await store.get(key);
+    return raw ? (JSON.parse(raw) as CachedCompletion) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Store a completion. Store errors are ignored; the cache is best effort. */
+async function writeCache(store: CacheStore, key: string, entry: CachedCompletion): Promise<void> {
+  try {
+    await store.set(key, JSON.stringify(entry));
+  } catch {
+    // Ignore: the rewrite already succeeded
+  }
+}
+
+const COMPLETE_METHODS = {
+  content: "completeContent",
+  title: "completeTitle",
+  description: "completeDescription",
+  stitch: "completeContent",
+} as const;
+
+/**
+ * Send one completion under the retry policy, unless the cache has it.
+ * Every attempt first waits for the rate limiter (prompt + max output
+ * tokens), then reserves its projected cost against the budget; the actual
+ * cost is checked afterwards.
+ *
+ * @param buildRequest - Request for an attempt (called again on retries)
+ */
+async function callProvider(
+  provider: RewriteProvider,
+  kind: CompletionKind,
+  buildRequest: (attempt: number) => CompletionRequest,
+  options: CallOptions
+): Promise<CompletionResponse> {
+  const { signal, rateLimiter, budget, cache } = options;
+
+  const cacheKey = cache
+    ? completionCacheKey(kind, provider.model, buildRequest(1), options.variantIndex)
+    : "";
+  if (cache) {
+    const cached = await readCache(cache, cacheKey);
+    if (cached) {
+      return {
+        text: cached.text,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        cost: 0,
+        provider: cached.provider,
+        model: cached.model,
+      };
+    }
+  }
+
+  const response = await withRetry(
+    async (attempt) => {
+      const request = buildRequest(attempt);
+      if (rateLimiter) {
+        const tokens = countMessageTokens(request.messages, provider.model) + request.maxTokens;
+        const waitMs = await rateLimiter.acquire(tokens, signal);
+        if (signal?.aborted) {
+          throw new ProviderError("Request aborted", provider.type, { code: "aborted" });
+        }
+        if (waitMs > 0) {
+          options.onRateLimitWait?.(waitMs);
+        }
+      }
+
+      const chain = budget ? budgetChain(budget) : [];
+      const projected = budget ? projectRequestCost(provider.model, request) : 0;
+      if (budget) {
+        const short = budget.exceededBy || chain.find((b) => b.spent + b.reserved + projected > b.maxCost);
+        if (short) {
+          exceedBudget(budget, short, { kind, projected });
+        }
+      }
+
+      chain.forEach((b) => (b.reserved += projected));
+      const startedAt = Date.now();
+      let response: CompletionResponse;
+      try {
+        response = await provider[COMPLETE_METHODS[kind]]({ ...request, signal });
+      } finally {
+        chain.forEach((b) => (b.reserved -= projected));
+      }
+
+      const cost = responseCost(provider, response);
+      options.onUsage?.({
+        kind,
+        chunk: options.chunk,
+        provider: response.provider || provider.type,
+        model: response.model || provider.model,
+        inputTokens: response.usage.inputTokens,
+        cachedInputTokens: response.usage.cachedInputTokens ?? 0,
+        outputTokens: response.usage.outputTokens,
+        cost,
+        latencyMs: Date.now() - startedAt,
+        attempts: attempt,
+      });
+
+      if (budget) {
+        chain.forEach((b) => (b.spent += cost));
+        const over = chain.find((b) => b.spent > b.maxCost);
+        if (over) {
+          exceedBudget(budget, over, { kind });
+        }
+      }
+      return response;
+    },
+    options.retry,
+    { kind, provider: provider.type, signal }
+  );
+
+  if (cache && (options.cacheable ? options.cacheable(response.text) : response.text.trim() !== "")) {
+    // Stored for the model that served it (a failover provider may have switched)
+    const servedBy = response.model || provider.model;
+    const key =
+      servedBy === provider.model
+        ? cacheKey
+        : completionCacheKey(kind, servedBy, buildRequest(1), options.variantIndex);
+    await writeCache(cache, key, {
+      text: response.text,
+      provider: response.provider,
+      model: response.model,
+    });
+  }
+  return response;
+}
+
+/** Copy of the options that also collects every usage entry into `usage` */
+function collectUsage<T extends ProviderRewriteOptions>(options: T, usage: UsageEntry[]): T {
+  return {
+    ...options,
+    onUsage: (entry: UsageEntry) => {
+      usage.push(entry);
+      options.onUsage?.(entry);
+    },
+  };
+}
+
+// =============================================================================
+// CONTENT REWRITE
+// =============================================================================
+
+/** Added to the instructions of every Markdown content request */
+const MARKDOWN_INSTRUCTIONS = `IMPORTANT: The content is Markdown. Return Markdown only, never HTML. Keep headings (#), list markers, tables, links, images and emphasis in Markdown syntax, and copy code blocks and inline code unchanged.`;
+
+/** Markdown is rewritten as Markdown; HTML and plain text as HTML */
+function isMarkdown(options: { format?: ContentFormat; content: string }): boolean {
+  return (options.format ?? detectFormat(options.content)) === "markdown";
+}
+
+function buildContentMessages(
+  content: string,
+  customPrompt: string,
+  markdown: boolean = false
+): ChatMessage[] {
+  // Use custom prompt or default
+  const instructions = customPrompt || DEFAULT_REWRITE_PROMPT;
+
+  // Structure:
+  // - Simple system prompt
+  // - Instructions in user message
+  const systemPrompt = `You are a professional content writer. Generate high-quality ${markdown ? "Markdown" : "HTML"} content based on the provided context and instructions.`;
+
+  const userMessage = `Current content:
+${content}
+
+Instructions: ${instructions}${markdown ? `\n\n${MARKDOWN_INSTRUCTIONS}` : ""}
+
+Generate an improved version:`;
+
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userMessage },
+  ];
+}
+
+function buildChunkPrompt(prompt: string, markdown: boolean = false): string {
+  return `${prompt || DEFAULT_REWRITE_PROMPT}\n\nIMPORTANT: You will receive a Context section for reference only. Rewrite ONLY the Chunk to rewrite section and return only its rewritten ${markdown ? "Markdown" : "HTML"}. Do NOT include the context in the output.`;
+}
+
+function buildChunkInput(context: string, content: string): string {
+  return `Context (do not include in output):\n${context}\n\nChunk to rewrite:\n${content}`;
+}
+
+function stripCodeFence(text: string, markdown: boolean = false): string {
+  if (markdown) {
+    // A bare fence may open the content's own code block; only strip a markdown-tagged wrapper
+    return /^```(?:markdown|md)[ \t]*\n/i.test(text)
+      ? text.replace(/^```\w*[ \t]*\n/, "").replace(/\n?```\s*$/, "").trim()
+      : text.trim();
+  }
+  return text
+    .replace(/^```html?\n?/i, "")
+    .replace(/\n?```$/i, "")
+    .trim();
+}
+
+function buildContentRequest(
+  model: string,
+  content: string,
+  customPrompt: string,
+  temperature: number,
+  maxTokens: number,
+  markdown: boolean = false
+): CompletionRequest {
+  return {
+    messages: buildContentMessages(content, customPrompt, markdown),
+    temperature,
+    maxTokens: outputLimit(model, maxTokens),
+    topP: DEFAULTS.TOP_P,
+    frequencyPenalty: DEFAULTS.FREQUENCY_PENALTY,
+    presencePenalty: DEFAULTS.PRESENCE_PENALTY,
+  };
+}
+
+/** Content of a response; Markdown requests always yield Markdown */
+function parseContentText(text: string, markdown: boolean = false): string {
+  return markdown
+    ? clampMarkdown(ensureMarkdown(stripCodeFence(text, true)), LIMITS.HTML_MAX)
+    : clampHtml(stripCodeFence(text), LIMITS.HTML_MAX);
+}
+
+async function rewriteContentOnly(
+  provider: RewriteProvider,
+  content: string,
+  customPrompt: string,
+  temperature: number,
+  maxTokens: number,
+  options: CallOptions & { onText?: (html: string) => void; format?: ContentFormat } = {}
+): Promise<{ html: string; cost: number; provider: ProviderType; model: string }> {
+  const { onText } = options;
+  const markdown = options.format === "markdown";
+  const request = buildContentRequest(
+    provider.model,
+    content,
+    customPrompt,
+    temperature,
+    maxTokens,
+    markdown
+  );
+  let streamed = "";
+  const restart = () => {
+    if (streamed) {
+      streamed = "";
+      onText?.("");
+    }
+  };
+  const response = await callProvider(
+    provider,
+    "content",
+    (attempt) => {
+      // A retried call streams again from the start
+      if (attempt > 1) {
+        restart();
+      }
+      return {
+        ...request,
+        onDelta: onText
+          ? (delta) => {
+              streamed += delta;
+              onText(stripCodeFence(streamed, markdown));
+            }
+          : undefined,
+        onRestart: onText ? restart : undefined,
+      };
+    },
+    options
+  );
+
+  const cost = responseCost(provider, response);
+
+  const html = parseContentText(response.text, markdown);
+
+  // Providers that cannot stream deliver the content in one piece
+  if (onText && !streamed) {
+    onText(html);
+  }
+
+  return {
+    html,
+    cost,
+    provider: response.provider || provider.type,
+    model: response.model || provider.model,
+  };
+}
+
+/** Output checks of the structure and fact policies, with the regenerations they allow */
+interface ContentCheck {
+  passes: (html: string) => boolean;
+  maxRegenerations: number;
+}
+
+/**
+ * Combine the policies that apply to `source` (the structure policy only
+ * applies to HTML). Undefined when no policy applies.
+ */
+function getContentCheck(
+  source: string,
+  policies: { structurePolicy?: StructurePolicy; factPolicy?: FactPolicy }
+): ContentCheck | undefined {
+  const structure = detectFormat(source) === "html" ? policies.structurePolicy : undefined;
+  const facts = policies.factPolicy;
+  if (!structure && !facts) {
+    return undefined;
+  }
+  return {
+    passes: (html) =>
+      (!structure || compareHtmlStructure(source, html, structure.checks).passed) &&
+      (!facts || compareFacts(source, html, facts.kinds).passed),
+    maxRegenerations: Math.max(
+      0,
+      structure ? structure.maxRegenerations ?? 1 : 0,
+      facts ? facts.maxRegenerations ?? 1 : 0
+    ),
+  };
+}
+
+/**
+ * rewriteContentOnly under the structure and fact policies: output that
+ * does not keep the structure or facts of `source` is regenerated (and
+ * never cached). The last attempt is returned either way; its cost
+ * includes every attempt.
+ *
+ * @param source - Content the output is compared with (the chunk without its context)
+ */
+async function rewriteContentChecked(
+  provider: RewriteProvider,
+  source: string,
+  content: string,
+  customPrompt: string,
+  temperature: number,
+  maxTokens: number,
+  options: CallOptions & {
+    onText?: (html: string) => void;
+    format?: ContentFormat;
+    structurePolicy?: StructurePolicy;
+    factPolicy?: FactPolicy;
+  } = {}
+): Promise<{ html: string; cost: number; provider: ProviderType; model: string }> {
+  const check = getContentCheck(source, options);
+  if (!check) {
+    return rewriteContentOnly(provider, content, customPrompt, temperature, maxTokens, options);
+  }
+
+  let cost = 0;
+  for (let regeneration = 0; ; regeneration++) {
+    const result = await rewriteContentOnly(provider, content, customPrompt, temperature, maxTokens, {
+      ...options,
+      cacheable: (text) => check.passes(parseContentText(text, options.format === "markdown")),
+    });
+    cost += result.cost;
+    if (regeneration >= check.maxRegenerations || check.passes(result.html)) {
+      return { ...result, cost };
+    }
+  }
+}
+
+// =============================================================================
+// TITLE GENERATION
+// =============================================================================
+
+function buildTitleRequest(contentSummary: string, originalTitle: string): CompletionRequest {
+  const systemPrompt = `You are a professional content writer. Generate a compelling page title.
+IMPORTANT: Return ONLY the title text itself, without any prefixes like "Sample Title:" or explanations.
+The title should be clear, engaging, and SEO-friendly.`;
+
+  const userMessage = `Current title: ${originalTitle}
+
+Context (article summary):
+${contentSummary}
+
+Instructions: Create a COMPLETELY rewritten, unique title. Keep the same language. Make it engaging and SEO-friendly.
+
+Generate an improved title (return ONLY the title text):`;
+
+  return {
+    messages: [
+      { role: "system", content: withTermNote(systemPrompt, userMessage) },
+      { role: "user", content: userMessage },
+    ],
+    temperature: 1.0,
+    maxTokens: 100,
+    topP: DEFAULTS.TOP_P,
+  };
+}
+
+function parseTitleText(text: string): string {
+  const title = text.trim()
+    .replace(/^(Sample Title|Title|Example):\s*/i, "")
+    .replace(/^["'](.+)["']$/, "$1")
+    .split("\n")[0]
+    .trim();
+
+  return clampString(title, LIMITS.TITLE_MIN, LIMITS.TITLE_MAX);
+}
+
+async function generateTitle(
+  provider: RewriteProvider,
+  contentSummary: string,
+  originalTitle: string,
+  options: CallOptions = {}
+): Promise<{ title: string; cost: number }> {
+  const request = buildTitleRequest(contentSummary, originalTitle);
+  const response = await callProvider(provider, "title", () => request, options);
+
+  return { title: parseTitleText(response.text), cost: responseCost(provider, response) };
+}
+
+// =============================================================================
+// DESCRIPTION GENERATION
+// =============================================================================
+
+function buildDescriptionRequest(
+  contentSummary: string,
+  originalDescription: string
+): CompletionRequest {
+  const systemPrompt = `You are a professional content writer. Generate a compelling meta description.
+IMPORTANT: Return ONLY plain text description, without any HTML tags, formatting, or prefixes.
+The description should be concise, informative, and encourage clicks from search results.`;
+
+  const userMessage = `Current description: ${originalDescription}
+
+Context (article summary):
+${contentSummary}
+
+Instructions: Create a COMPLETELY rewritten, unique meta description. Keep the same language. 150-160 characters ideal.
+
+Generate an improved description (return ONLY plain text, no HTML):`;
+
+  return {
+    messages: [
+      { role: "system", content: withTermNote(systemPrompt, userMessage) },
+      { role: "user", content: userMessage },
+    ],
+    temperature: 0.8,
+    maxTokens: 200,
+    topP: DEFAULTS.TOP_P,
+  };
+}
+
+function parseDescriptionText(text: string): string {
+  const description = text.trim()
+    .replace(/<[^>]*>/g, "")
+    .replace(/^(Sample Description|Description|Example):\s*/i, "")
+    .replace(/^["'](.+)["']$/, "$1")
+    .replace(/\n+/g, " ")
+    .trim();
+
+  return clampString(description, 0, LIMITS.DESCRIPTION_MAX);
+}
+
+async function generateDescription(
+  provider: RewriteProvider,
+  contentSummary: string,
+  originalDescription: string,
+  options: CallOptions = {}
+): Promise<{ description: string; cost: number }> {
+  const request = buildDescriptionRequest(contentSummary, originalDescription);
+  const response = await callProvider(provider, "description", () => request, options);
+
+  return {
+    description: parseDescriptionText(response.text),
+    cost: responseCost(provider, response),
+  };
+}
+
+/**
+ * Generate title and description in parallel (skipping empty originals),
+ * streaming each one as soon as it is ready.
+ */
+function generateMeta(
+  provider: RewriteProvider,
+  contentSummary: string,
+  options: ProviderRewriteOptions,
+  checkpoint?: Checkpoint
+): Promise<[{ title: string; cost: number }, { description: string; cost: number }]> {
+  const { title, description } = options;
+  return Promise.all([
+    title
+      ? checkpointed(checkpoint, "title", JSON.stringify([contentSummary, title]), () =>
+          generateTitle(provider, contentSummary, title, options)
+        ).then((result) => {
+          options.onStream?.({ field: "title", text: result.title });
+          return result;
+        })
+      : Promise.resolve({ title: "", cost: 0 }),
+    description
+      ? checkpointed(checkpoint, "description", JSON.stringify([contentSummary, description]), () =>
+          generateDescription(provider, contentSummary, description, options)
+        ).then((result) => {
+          options.onStream?.({ field: "description", text: result.description });
+          return result;
+        })
+      : Promise.resolve({ description: "", cost: 0 }),
+  ]);
+}
+
+// =============================================================================
+// HELPER: ASSEMBLE RESULT
+// =============================================================================
+
+/**
+ * Join rewritten content parts and fill a missing title/description
+ * from the first part's <h1> and <p> (Markdown: `# ` heading and first paragraph).
+ */
+function assembleRewrite(
+  parts: string[],
+  title: string,
+  description: string,
+  markdown: boolean = false
+): { title: string; description: string; html: string } {
+  const first = parts[0] || "";
+
+  if (markdown) {
+    if (!title) {
+      title = first.match(/^#[ \t]+(.+?)[ \t#]*$/m)?.[1] || "";
+    }
+    if (!description) {
+      const paragraph = splitMarkdownBlocks(first).find((block) => /^[^#>|`~\s*+-]/.test(block));
+      description = paragraph ? createContentSummary(paragraph, LIMITS.DESCRIPTION_MAX, true) : "";
+    }
+    return {
+      title: clampString(title, LIMITS.TITLE_MIN, LIMITS.TITLE_MAX),
+      description: clampString(description, 0, LIMITS.DESCRIPTION_MAX),
+      html: clampMarkdown(parts.join("\n\n"), LIMITS.HTML_MAX),
+    };
+  }
+
+  if (!title) {
+    const h1Match = first.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+    if (h1Match) {
+      title = h1Match[1].replace(/<[^>]+>/g, "").trim();
+    }
+  }
+
+  if (!description) {
+    const pMatch = first.match(/<p[^>]*>([\s\S]*?)<\/p>/i);
+    if (pMatch) {
+      description = pMatch[1].replace(/<[^>]+>/g, "").trim();
+    }
+  }
+
+  return {
+    title: clampString(title, LIMITS.TITLE_MIN, LIMITS.TITLE_MAX),
+    description: clampString(description, 0, LIMITS.DESCRIPTION_MAX),
+    html: clampHtml(parts.join("\n"), LIMITS.HTML_MAX),
+  };
+}
+
+// =============================================================================
+// HELPER: CREATE CONTENT SUMMARY
+// =============================================================================
+
+/** Markdown text of a summary */
+function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[ \t]*$/gm, " ")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^[ \t]*(?:#{1,6}[ \t]+|>[ \t]?|[-*+][ \t]+|\d+[.)][ \t]+)/gm, "")
+    .replace(/[*_~`|]+/g, "");
+}
+
+function createContentSummary(
+  html: string,
+  maxLength: number = 2000,
+  markdown: boolean = false
+): string {
+  const text = (markdown ? stripMarkdown(html) : html)
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return cut.slice(0, lastSpace > 0 ? lastSpace : maxLength) + "...";
+}
+
+// =============================================================================
+// STRUCTURED OUTPUT (SINGLE CALL)
+// =============================================================================
+
+const STRUCTURED_OUTPUT_FORMAT: JsonSchemaFormat = {
+  type: "json_schema",
+  name: "rewrite",
+  schema: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      description: { type: "string" },
+      html: { type: "string" },
+    },
+    required: ["title", "description", "html"],
+    additionalProperties: false,
+  },
+};
+
+function buildStructuredMessages(options: ProviderRewriteOptions): ChatMessage[] {
+  const markdown = isMarkdown(options);
+  const instructions = `${options.prompt || DEFAULT_REWRITE_PROMPT}${markdown ? `\n\n${MARKDOWN_INSTRUCTIONS}` : ""}`;
+
+  const systemPrompt = `You are a professional content writer. Rewrite the article and its metadata.
+IMPORTANT: Respond with ONLY a JSON object with the keys "title", "description" and "html", without code fences or explanations.
+- "title": a compelling, SEO-friendly page title (plain text, no prefixes)
+- "description": a meta description of 150-160 characters (plain text, no HTML)
+- "html": the rewritten article as ${markdown ? "Markdown (not HTML)" : "HTML"}`;
+
+  const userMessage = `Current title: ${options.title || "(none - write one from the content)"}
+
+Current description: ${options.description || "(none - write one from the content)"}
+
+Current content:
+${options.content}
+
+Instructions: ${instructions}
+
+Keep the same language. Make the title and description COMPLETELY rewritten and consistent with the new content.
+
+Generate the improved version as JSON:`;
+
+  return [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userMessage },
+  ];
+}
+
+/**
+ * Check a parsed structured response. Returns the problem, or null if it is usable.
+ */
+function validateStructuredResponse(parsed: ParsedResponse): string | null {
+  // parseAiResponse falls back to the raw text as html when it finds no fields
+  if (!parsed.html || /^\s*\{/.test(parsed.html)) {
+    return "no html field";
+  }
+  if (parsed.title.length < LIMITS.TITLE_MIN) {
+    return "missing title";
+  }
+  if (!parsed.description) {
+    return "missing description";
+  }
+  return null;
+}
+
+async function rewriteStructured(
+  provider: RewriteProvider,
+  options: ProviderRewriteOptions
+): Promise<ProviderRewriteResult> {
+  const temperature = options.temperature ?? DEFAULTS.TEMPERATURE;
+  // Extra room for the title, description and JSON escaping
+  const maxTokens = (options.maxTokens ?? DEFAULTS.MAX_TOKENS) + DEFAULTS.MAX_TOKENS_META;
+  const messages = buildStructuredMessages(options);
+  const markdown = isMarkdown(options);
+  const usage: UsageEntry[] = [];
+  options = collectUsage(options, usage);
+
+  let totalCost = 0;
+  let problem = "";
+  const check = getContentCheck(options.content, options);
+  let regenerations = 0;
+  let attempts = 0;
+
+  // Structure and fact regenerations do not use up the attempts for invalid responses
+  while (attempts < PROCESSING.STRUCTURED_OUTPUT_ATTEMPTS + regenerations) {
+    attempts++;
+    const response = await callProvider(
+      provider,
+      "content",
+      () => ({
+        messages,
+        temperature,
+        maxTokens: outputLimit(provider.model, maxTokens),
+        topP: DEFAULTS.TOP_P,
+        frequencyPenalty: DEFAULTS.FREQUENCY_PENALTY,
+        presencePenalty: DEFAULTS.PRESENCE_PENALTY,
+        responseFormat: STRUCTURED_OUTPUT_FORMAT,
+      }),
+      {
+        ...options,
+        // A cached invalid response would come back on every attempt
+        cacheable: (text) => {
+          const parsed = parseAiResponse(text);
+          return (
+            !validateStructuredResponse(parsed) &&
+            (!check || check.passes(parseContentText(parsed.html, markdown)))
+          );
+        },
+      }
+    );
+    totalCost += responseCost(provider, response);
+
+    const parsed = parseAiResponse(response.text);
+    problem = validateStructuredResponse(parsed) || "";
+    if (problem) {
+      continue;
+    }
+
+    const title = clampString(
+      parsed.title.replace(/^["'](.+)["']$/, "$1"),
+      LIMITS.TITLE_MIN,
+      LIMITS.TITLE_MAX
+    );
+    const description = clampString(
+      parsed.description.replace(/<[^>]*>/g, "").replace(/\n+/g, " ").trim(),
+      0,
+      LIMITS.DESCRIPTION_MAX
+    );
+    const html = parseContentText(parsed.html, markdown);
+    if (check && regenerations < check.maxRegenerations && !check.passes(html)) {
+      regenerations++;
+      continue;
+    }
+
+    options.onStream?.({ field: "title", text: title });
+    options.onStream?.({ field: "description", text: description });
+    options.onStream?.({ field: "content", text: html });
+
+    return {
+      title,
+      description,
+      html,
+      cost: totalCost,
+      provider: response.provider || provider.type,
+      model: response.model || provider.model,
+      usage,
+    };
+  }
+
+  throw new ProviderError(
+    `Invalid structured response after ${attempts} attempts: ${problem}`,
+    provider.type,
+    { code: "invalid_structured_output", cost: totalCost }
+  );
+}
+
+// =============================================================================
+// PROTECTED LINKS AND TERMS
+// =============================================================================
+
+const TERM_PLACEHOLDER_NOTE =
+  "IMPORTANT: Placeholders like {{rw-term-1}} stand for protected brand names and keywords. Keep every placeholder exactly as written, do not translate or split it.";
+
+/** Add the placeholder note to a title or description prompt whose message carries placeholders */
+function withTermNote(systemPrompt: string, userMessage: string): string {
+  return userMessage.includes("{{rw-term-") ? `${systemPrompt}\n${TERM_PLACEHOLDER_NOTE}` : systemPrompt;
+}
+
+function needsPlaceholders(options: ProviderRewriteOptions): boolean {
+  return Boolean(options.protectLinks || options.protectedTerms?.length);
+}
+
+/**
+ * Replace the links (with `protectLinks`) and protected terms of a rewrite
+ * with placeholders. Used by the live pipeline and by batch planning.
+ */
+export function applyPlaceholders<T extends ProviderRewriteOptions>(
+  options: T
+): { options: T; placeholders: RewritePlaceholders } {
+  const terms = options.protectedTerms || [];
+  const shielded = options.protectLinks ? protectLinks(options.content) : undefined;
+  const content = protectTerms(shielded?.content ?? options.content, terms);
+  const title = options.title && protectTerms(options.title, terms);
+  const description = options.description && protectTerms(options.description, terms);
+  const expected = (text: string) =>
+    terms.filter((_term, i) => text.includes(`{{rw-term-${i + 1}}}`));
+
+  return {
+    options: {
+      ...options,
+      content,
+      title,
+      description,
+      // Structured output sends the title and description with the content
+      prompt: [content, title, description].some((text) => text?.includes("{{rw-term-"))
+        ? `${options.prompt || DEFAULT_REWRITE_PROMPT}\n\n${TERM_PLACEHOLDER_NOTE}`
+        : options.prompt,
+      protectLinks: false,
+      protectedTerms: undefined,
+    },
+    placeholders: {
+      links: shielded?.links,
+      terms,
+      expectedTerms: {
+        content: expected(content),
+        title: expected(title || ""),
+        description: expected(description || ""),
+      },
+    },
+  };
+}
+
+/**
+ * Put the originals of applyPlaceholders back into rewritten text.
+ */
+export function restorePlaceholders(text: string, placeholders: RewritePlaceholders): string {
+  const restored = placeholders.links ? restoreLinks(text, { links: placeholders.links }) : text;
+  return restoreTerms(restored, placeholders.terms);
+}
+
+/**
+ * Run a rewrite on content whose links and protected terms are replaced
+ * with placeholders, then put the originals back into the streamed and
+ * final text.
+ */
+async function withPlaceholders<T extends ProviderRewriteOptions>(
+  options: T,
+  run: (options: T) => Promise<ProviderRewriteResult>
+): Promise<ProviderRewriteResult> {
+  const { options: shielded, placeholders } = applyPlaceholders(options);
+  const restore = (text: string) => restorePlaceholders(text, placeholders);
+
+  const onStream = options.onStream;
+  const result = await run({
+    ...shielded,
+    onStream: onStream && ((event) => onStream({ ...event, text: restore(event.text) })),
+  });
+
+  return {
+    ...result,
+    html: restore(result.html),
+    title: restore(result.title),
+    description: restore(result.description),
+  };
+}
+
+// =============================================================================
+// MAIN REWRITE FUNCTION
+// =============================================================================
+
+export async function rewriteWithProvider(
+  provider: RewriteProvider,
+  options: ProviderRewriteOptions
+): Promise<ProviderRewriteResult> {
+  // Detected on the original content, before placeholders replace its links
+  if (!options.format) {
+    options = { ...options, format: detectFormat(options.content) };
+  }
+  if (needsPlaceholders(options)) {
+    return withPlaceholders(options, (shielded) => rewriteWithProvider(provider, shielded));
+  }
+  if (options.structuredOutput) {
+    return rewriteStructured(provider, options);
+  }
+
+  const temperature = options.temperature ?? DEFAULTS.TEMPERATURE;
+  const maxTokens = options.maxTokens ?? DEFAULTS.MAX_TOKENS;
+  const usage: UsageEntry[] = [];
+  options = collectUsage(options, usage);
+
+  const markdown = isMarkdown(options);
+  const contentSummary = createContentSummary(options.content, 2000, markdown);
+
+  const onStream = options.onStream;
+
+  // Run all three in PARALLEL
+  const [contentResult, [titleResult, descResult]] = await Promise.all([
+    rewriteContentChecked(
+      provider,
+      options.content,
+      options.content,
+      options.prompt,
+      temperature,
+      maxTokens,
+      {
+        ...options,
+        onText: onStream ? (text) => onStream({ field: "content", text }) : undefined,
+      }
+    ),
+    generateMeta(provider, contentSummary, options),
+  ]);
+
+  const totalCost = contentResult.cost + titleResult.cost + descResult.cost;
+
+  return {
+    ...assembleRewrite([contentResult.html], titleResult.title, descResult.description, markdown),
+    cost: totalCost,
+    provider: contentResult.provider,
+    model: contentResult.model,
+    usage,
+  };
+}
+
+// =============================================================================
+// CHUNK CHECKPOINTS
+// =============================================================================
+
+interface Checkpoint {
+  store: CacheStore;
+  /** Key prefix for one variant of one job */
+  prefix: string;
+}
+
+interface CheckpointEntry<T> {
+  /** Hash of the part's input; a changed input does not resume */
+  input: string;
+  value: T;
+}
+
+/** Checkpoint scope for a variant, when the rewrite has a store and job id */
+function getCheckpoint(options: ProviderRewriteOptions): Checkpoint | undefined {
+  if (!options.checkpointStore || !options.jobId) {
+    return undefined;
+  }
+  return {
+    store: options.checkpointStore,
+    prefix: `checkpoint:${options.jobId}:${options.variantIndex ?? 0}`,
+  };
+}
+
+/**
+ * Run `produce` unless the checkpoint already holds its output for the same
+ * input, then save what it produced. Restored parts cost nothing; store
+ * errors only lose the checkpoint.
+ */
+async function checkpointed<T extends { cost: number }>(
+  checkpoint: Checkpoint | undefined,
+  part: string,
+  input: string,
+  produce: () => Promise<T>
+): Promise<T> {
+  if (!checkpoint) {
+    return produce();
+  }
+
+  const key = `${checkpoint.prefix}:${part}`;
+  const inputHash = hashString(input);
+  try {
+    const raw = await checkpoint.store.get(key);
+    const entry = raw ? (JSON.parse(raw) as CheckpointEntry<T>) : undefined;
+    if (entry?.input === inputHash) {
+      return { ...entry.value, cost: 0 };
+    }
+  } catch {
+    // Unreadable checkpoint: produce the part again
+  }
+
+  const value = await produce();
+  try {
+    const entry: CheckpointEntry<T> = { input: inputHash, value };
+    await checkpoint.store.set(key, JSON.stringify(entry));
+  } catch {
+    // Ignore: the part succeeded, only resuming it is lost
+  }
+  return value;
+}
+
+/** Remove a finished variant's checkpoints (best effort) */
+async function clearCheckpoint(checkpoint: Checkpoint, chunkCount: number): Promise<void> {
+  const parts = ["title", "description", ...Array.from({ length: chunkCount }, (_, i) => `chunk:${i}`)];
+  await Promise.all(
+    parts.map((part) =>
+      Promise.resolve()
+        .then(() => checkpoint.store.delete(`${checkpoint.prefix}:${part}`))
+        .catch(() => undefined)
+    )
+  );
+}
+
+// =============================================================================
+// COHERENCE STITCHING
+// =============================================================================
+
+/** Characters of the previous/next chunk shown around a boundary */
+const STITCH_WINDOW = 1500;
+
+/** Leading blocks of `blocks` up to about `length` characters (at least one) */
+function takeBlocks(blocks: string[], length: number): number {
+  let count = 0;
+  let size = 0;
+  while (count < blocks.length && (count === 0 || size + blocks[count].length <= length)) {
+    size += blocks[count].length;
+    count++;
+  }
+  return count;
+}
+
+/** Heading text of the whole article, so every boundary uses the same terms */
+function buildOutline(parts: string[]): string {
+  const headings = parts
+    .join("\n")
+    .match(/<h[1-6]\b[^>]*>[\s\S]*?<\/h[1-6]>|^#{1,6}\s.+$/gim);
+  return (headings || [])
+    .map((heading) => heading.replace(/<[^>]+>/g, "").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+function buildStitchRequest(
+  model: string,
+  outline: string,
+  previous: string,
+  next: string
+): CompletionRequest {
+  const systemPrompt = `You are an editor joining sections of one article that were rewritten separately.
+IMPORTANT: Return ONLY the revised start of the next section, without explanations or code fences.`;
+
+  const userMessage = `Article outline:
+${outline || "(no headings)"}
+
+End of the previous section (reference only, do not return it):
+${previous}
+
+Start of the next section:
+${next}
+
+Instructions: Revise ONLY the start of the next section so it follows naturally from the previous section. Remove sentences that repeat the previous section, smooth an abrupt transition, and use the same terms as the previous section for the same concepts. Change as little as possible. Keep the language, facts, numbers, links and formatting (HTML tags or Markdown syntax).
+
+Revised start of the next section:`;
+
+  const expected = Math.ceil(estimateTokens(next, model) * LIMITS.OUTPUT_TO_INPUT_RATIO) + 200;
+  return {
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userMessage },
+    ],
+    temperature: 0.3,
+    maxTokens: outputLimit(model, expected),
+    topP: DEFAULTS.TOP_P,
+  };
+}
+
+/**
+ * Join chunk rewrites coherently: drop content repeated across each
+ * boundary (no request), then revise the start of every chunk after the
+ * first against the end of the previous one (one request per boundary).
+ * A failed or empty revision keeps the deduplicated chunk; fatal errors,
+ * aborts and budget overruns still fail the rewrite.
+ */
+async function stitchChunks(
+  provider: RewriteProvider,
+  parts: string[],
+  options: CallOptions & { format?: ContentFormat }
+): Promise<{ parts: string[]; cost: number }> {
+  const markdown = options.format === "markdown";
+  const stitched = parts.map((part, i) =>
+    i === 0 ? part : removeBoundaryRepeats(parts[i - 1], part).content
+  );
+  const outline = buildOutline(stitched);
+
+  const revisions = await processInBatches(
+    stitched.slice(1).map((part, i) => ({ part, index: i + 1 })),
+    async ({ part, index }) => {
+      const previousBlocks = splitContentBlocks(stitched[index - 1]).reverse();
+      const tail = previousBlocks
+        .slice(0, takeBlocks(previousBlocks, STITCH_WINDOW))
+        .reverse()
+        .join("\n");
+      const blocks = splitContentBlocks(part);
+      const separator = detectFormat(part) === "html" ? "\n" : "\n\n";
+      const headCount = takeBlocks(blocks, STITCH_WINDOW);
+      const head = blocks.slice(0, headCount).join(separator);
+
+      const request = buildStitchRequest(provider.model, outline, tail, head);
+      let response: CompletionResponse;
+      try {
+        response = await callProvider(provider, "stitch", () => request, {
+          ...options,
+          chunk: index,
+        });
+      } catch (error) {
+        if (isFatalError(error) || isAbortError(error) || options.signal?.aborted) {
+          throw error;
+        }
+        return { index, cost: 0, content: part };
+      }
+      const revised = parseContentText(response.text, markdown);
+
+      return {
+        index,
+        cost: responseCost(provider, response),
+        content: revised ? [revised, ...blocks.slice(headCount)].join(separator) : part,
+      };
+    },
+    PROCESSING.MAX_CONCURRENT_CHUNKS,
+    PROCESSING.CHUNK_BATCH_DELAY_MS
+  );
+
+  let cost = 0;
+  for (const revision of revisions) {
+    if (revision) {
+      stitched[revision.index] = revision.content;
+      cost += revision.cost;
+    }
+  }
+  return { parts: stitched, cost };
+}
+
+// =============================================================================
+// LARGE CONTENT REWRITE (CHUNKED)
+// =============================================================================
+
+interface PlannedChunk {
+  content: string;
+  /** Headings above the chunk (HTML) or overlap from the previous chunk, for reference only */
+  context: string;
+  index: number;
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+/**
+ * Split content into chunks that each fit one call's token budget.
+ * HTML is split between top-level elements, Markdown between blocks; plain
+ * text by characters with an overlap.
+ */
+function planChunks(
+  content: string,
+  model: string,
+  prompt: string,
+  maxTokens: number,
+  format: ContentFormat = detectFormat(content)
+): PlannedChunk[] {
+  // Each chunk's rewrite must fit in one call's output limit
+  const budget = getTokenBudget(model, prompt, maxTokens, true);
+  if (format === "html") {
+    return splitIntoHtmlChunks(content, budget.maxContentTokens, model, LIMITS.CHUNK_OVERLAP);
+  }
+  if (format === "markdown") {
+    return splitIntoMarkdownChunks(content, budget.maxContentTokens, model, LIMITS.CHUNK_OVERLAP);
+  }
+
+  const rawChunks = splitIntoTokenChunks(
+    content,
+    budget.maxContentTokens,
+    model,
+    LIMITS.CHUNK_OVERLAP
+  );
+  const chunks: PlannedChunk[] = [];
+
+  for (let i = 0; i < rawChunks.length; i++) {
+    const raw = rawChunks[i];
+    const hasContext = i > 0;
+    const overlapSize = hasContext
+      ? Math.min(LIMITS.CHUNK_OVERLAP, raw.content.length)
+      : 0;
+    const context = hasContext ? raw.content.slice(0, overlapSize) : "";
+    const chunkContent = hasContext ? raw.content.slice(overlapSize) : raw.content;
+
+    if (chunkContent.trim().length === 0) {
+      continue;
+    }
+
+    const index = chunks.length;
+    chunks.push({
+      content: chunkContent,
+      context,
+      index,
+      isFirst: index === 0,
+      isLast: false,
+    });
+  }
+
+  if (chunks.length > 0) {
+    chunks[chunks.length - 1].isLast = true;
+  }
+  return chunks;
+}
+
+/** Content and prompt to send for a chunk (with its context, if any). */
+function chunkInput(
+  chunk: PlannedChunk,
+  prompt: string,
+  markdown: boolean = false
+): { content: string; prompt: string } {
+  return chunk.context
+    ? {
+        content: buildChunkInput(chunk.context, chunk.content),
+        prompt: buildChunkPrompt(prompt, markdown),
+      }
+    : { content: chunk.content, prompt };
+}
+
+/**
+ * Rewrite content too large for one call: chunks are rewritten in parallel
+ * batches while title and description are generated.
+ * With a checkpoint store and job id, every finished chunk, the title and
+ * the description are saved; rerunning the same job resumes the missing
+ * parts only. Checkpoints are removed once the rewrite completes.
+ * With `stitch`, the chunks are joined by a coherence pass (stitchChunks).
+ * With `protectLinks` or `protectedTerms`, chunks are planned on the placeholder content.
+ */
+export async function rewriteLargeContentWithProvider(
+  provider: RewriteProvider,
+  options: ProviderRewriteOptions & {
+    onProgress?: ProgressCallback;
+    totalVariants?: number;
+  }
+): Promise<ProviderRewriteResult> {
+  if (!options.format) {
+    options = { ...options, format: detectFormat(options.content) };
+  }
+  if (needsPlaceholders(options)) {
+    return withPlaceholders(options, (shielded) => rewriteLargeContentWithProvider(provider, shielded));
+  }
+
+  const content = options.content;
+  const variantIndex = options.variantIndex ?? 0;
+  const totalVariants = options.totalVariants ?? 1;
+  const maxTokens = options.maxTokens ?? DEFAULTS.MAX_TOKENS;
+
+  // A failover chain may hand any chunk to its smallest model
+  const model = sizingModel(provider, options.prompt, maxTokens);
+  if (!isLargeContent(content, model, options.prompt, maxTokens)) {
+    return rewriteWithProvider(provider, options);
+  }
+
+  const usage: UsageEntry[] = [];
+  options = collectUsage(options, usage);
+
+  const markdown = isMarkdown(options);
+  const separator = markdown ? "\n\n" : "\n";
+  const contentSummary = createContentSummary(content, 1500, markdown);
+  const checkpoint = getCheckpoint(options);
+
+  // Start title/description in parallel with chunking; awaited together with
+  // the chunks below, so a failure of either side never leaves the other unhandled
+  const metaPromise = generateMeta(provider, contentSummary, options, checkpoint);
+
+  const chunks = planChunks(content, model, options.prompt, maxTokens, options.format);
+  let totalCost = 0;
+  const completedChunks = new Set<number>();
+
+  // Streamed text per chunk, shown in chunk order
+  const onStream = options.onStream;
+  const partialChunks: string[] = chunks.map(() => "");
+  const streamChunk = (index: number, text: string) => {
+    partialChunks[index] = text;
+    onStream?.({ field: "content", text: partialChunks.filter(Boolean).join(separator) });
+  };
+
+  options.onProgress?.({
+    phase: "generating",
+    currentVariant: variantIndex + 1,
+    totalVariants,
+    currentChunk: 0,
+    totalChunks: chunks.length,
+    message: `Starting variant ${variantIndex + 1}...`,
+  });
+
+  const chunkProcessor = async (
+    chunk: PlannedChunk
+  ): Promise<{ html: string; cost: number; provider: ProviderType; model: string }> => {
+    const input = chunkInput(chunk, options.prompt, markdown);
+    const temperature = options.temperature ?? DEFAULTS.TEMPERATURE;
+    let generated = false;
+
+    const result = await checkpointed(
+      checkpoint,
+      `chunk:${chunk.index}`,
+      JSON.stringify([input.content, input.prompt, temperature, maxTokens]),
+      () => {
+        generated = true;
+        return rewriteContentChecked(
+          provider,
+          chunk.content,
+          input.content,
+          input.prompt,
+          temperature,
+          maxTokens,
+          {
+            ...options,
+            chunk: chunk.index,
+            onText: onStream ? (text) => streamChunk(chunk.index, text) : undefined,
+          }
+        );
+      }
+    );
+    if (!generated && onStream) {
+      streamChunk(chunk.index, result.html);
+    }
+
+    completedChunks.add(chunk.index);
+    options.onProgress?.({
+      phase: "generating",
+      currentVariant: variantIndex + 1,
+      totalVariants,
+      currentChunk: completedChunks.size,
+      totalChunks: chunks.length,
+      message: `Chunk ${completedChunks.size}/${chunks.length}`,
+      costSoFar: totalCost + result.cost,
+    });
+
+    return result;
+  };
+
+  const [chunkResults, [titleResult, descResult]] = await Promise.all([
+    processInBatches(
+      chunks,
+      chunkProcessor,
+      PROCESSING.MAX_CONCURRENT_CHUNKS,
+      PROCESSING.CHUNK_BATCH_DELAY_MS
+    ),
+    metaPromise,
+  ]);
+
+  const rewrittenChunks: string[] = [];
+  // Chunks may fail over independently; report whoever served most of them
+  const servedBy = new Map<string, { provider: ProviderType; model: string; count: number }>();
+  for (const result of chunkResults) {
+    if (result?.html) {
+      rewrittenChunks.push(result.html);
+      totalCost += result.cost || 0;
+
+      const key = `${result.provider}:${result.model}`;
+      const entry = servedBy.get(key) || { provider: result.provider, model: result.model, count: 0 };
+      entry.count++;
+      servedBy.set(key, entry);
+    }
+  }
+  const mainServer = [...servedBy.values()].sort((a, b) => b.count - a.count)[0] || {
+    provider: provider.type,
+    model: provider.model,
+  };
+
+  totalCost += titleResult.cost + descResult.cost;
+
+  let parts = rewrittenChunks;
+  if (options.stitch && parts.length > 1) {
+    const stitched = await stitchChunks(provider, parts, options);
+    parts = stitched.parts;
+    totalCost += stitched.cost;
+    onStream?.({ field: "content", text: parts.join(separator) });
+  }
+
+  if (checkpoint) {
+    await clearCheckpoint(checkpoint, chunks.length);
+  }
+
+  return {
+    ...assembleRewrite(parts, titleResult.title, descResult.description, markdown),
+    cost: totalCost,
+    provider: mainServer.provider,
+    model: mainServer.model,
+    usage,
+  };
+}
+
+// =============================================================================
+// BATCH PLANNING
+// =============================================================================
+
+/** A completion one variant needs, tagged for reassembly */
+export interface PlannedCompletion {
+  /** Planned rewrites have no stitch requests */
+  kind: Exclude<CompletionKind, "stitch">;
+  /** Chunk position for content requests (0 when not chunked) */
+  chunk: number;
+  request: CompletionRequest;
+}
+
+/**
+ * Every completion one variant needs, without sending any: the content
+ * (one request per chunk for large content), title and description.
+ * Uses the same prompts as the live pipeline, for offline batch APIs.
+ */
+export function planRewriteRequests(
+  model: string,
+  options: ProviderRewriteOptions
+): PlannedCompletion[] {
+  const temperature = options.temperature ?? DEFAULTS.TEMPERATURE;
+  const maxTokens = options.maxTokens ?? DEFAULTS.MAX_TOKENS;
+  const isLarge = isLargeContent(options.content, model, options.prompt, maxTokens);
+  const format = options.format ?? detectFormat(options.content);
+  const markdown = format === "markdown";
+  const planned: PlannedCompletion[] = [];
+
+  if (isLarge) {
+    for (const chunk of planChunks(options.content, model, options.prompt, maxTokens, format)) {
+      const input = chunkInput(chunk, options.prompt, markdown);
+      planned.push({
+        kind: "content",
+        chunk: chunk.index,
+        request: buildContentRequest(
+          model,
+          input.content,
+          input.prompt,
+          temperature,
+          maxTokens,
+          markdown
+        ),
+      });
+    }
+  } else {
+    planned.push({
+      kind: "content",
+      chunk: 0,
+      request: buildContentRequest(
+        model,
+        options.content,
+        options.prompt,
+        temperature,
+        maxTokens,
+        markdown
+      ),
+    });
+  }
+
+  const contentSummary = isLarge
+    ? createContentSummary(options.content, 1500, markdown)
+    : createContentSummary(options.content, 2000, markdown);
+  if (options.title) {
+    planned.push({ kind: "title", chunk: 0, request: buildTitleRequest(contentSummary, options.title) });
+  }
+  if (options.description) {
+    planned.push({
+      kind: "description",
+      chunk: 0,
+      request: buildDescriptionRequest(contentSummary, options.description),
+    });
+  }
+
+  return planned;
+}
+
+/**
+ * Build a rewrite from the raw completion texts of planned requests.
+ * `content` holds the text of each content request in chunk order;
+ * `format` is the format the requests were planned for.
+ */
+export function assembleRewriteFromCompletions(completions: {
+  content: string[];
+  title?: string;
+  description?: string;
+  format?: ContentFormat;
+}): { title: string; description: string; html: string } {
+  const markdown = completions.format === "markdown";
+  return assembleRewrite(
+    completions.content.map((text) => parseContentText(text, markdown)).filter(Boolean),
+    completions.title ? parseTitleText(completions.title) : "",
+    completions.description ? parseDescriptionText(completions.description) : "",
+    markdown
+  );
+}
+
+// =============================================================================
+// MULTIPLE VARIANTS
+// =============================================================================
+
+/** Options for generating several variants of one input */
+export type GenerateVariantsOptions = ProviderRewriteOptions & {
+  variantCount: number;
+  onProgress?: ProgressCallback;
+  onVariantComplete?: (result: ProviderRewriteResult, index: number) => void;
+  onVariantStream?: (event: ProviderStreamEvent, index: number) => void;
+};
+
+/** Outcome of one variant in settled mode */
+export type SettledVariant =
+  | { status: "fulfilled"; result: ProviderRewriteResult }
+  | { status: "rejected"; error: unknown };
+
+/**
+ * Start every variant at once. Returns one promise per variant and the
+ * progress callback (with rate limiter waits folded in).
+ */
+function startVariants(
+  provider: RewriteProvider,
+  options: GenerateVariantsOptions,
+  onFatalError: (error: unknown) => void
+): { variants: Promise<ProviderRewriteResult>[]; onProgress?: ProgressCallback } {
+  const {
+    variantCount,
+    onVariantComplete,
+    onVariantStream,
+    ...rewriteOptions
+  } = options;
+
+  // Rate limiter waits of every variant add up in the progress reports
+  let queueWaitMs = 0;
+  const onProgress: ProgressCallback | undefined = options.onProgress && (
+    options.rateLimiter
+      ? (progress) => options.onProgress!({ ...progress, queueWaitMs })
+      : options.onProgress
+  );
+
+  // Resolve the model up front so the "error" unknown model policy fails before any request
+  getModelInfo(provider.model);
+
+  onProgress?.({
+    phase: "preparing",
+    currentVariant: 0,
+    totalVariants: variantCount,
+    message: "Preparing rewrite...",
+  });
+
+  const isLarge = isLargeContent(
+    options.content,
+    sizingModel(provider, options.prompt, options.maxTokens),
+    options.prompt,
+    options.maxTokens
+  );
+
+  const variants = Array.from({ length: variantCount }, async (_, i) => {
+    const variantOptions: ProviderRewriteOptions = {
+      ...rewriteOptions,
+      onStream: onVariantStream ? (event) => onVariantStream(event, i) : rewriteOptions.onStream,
+      onUsage: rewriteOptions.onUsage && ((entry) => rewriteOptions.onUsage!({ ...entry, variant: i })),
+      variantIndex: i,
+      onRateLimitWait: (waitMs) => {
+        queueWaitMs += waitMs;
+        rewriteOptions.onRateLimitWait?.(waitMs);
+        onProgress?.({
+          phase: "generating",
+          currentVariant: i + 1,
+          totalVariants: variantCount,
+          message: `Variant ${i + 1} waited ${(waitMs / 1000).toFixed(1)}s for the rate limit`,
+        });
+      },
+    };
+
+    try {
+      const result = isLarge
+        ? await rewriteLargeContentWithProvider(provider, {
+            ...variantOptions,
+            totalVariants: variantCount,
+            onProgress,
+          })
+        : await rewriteWithProvider(provider, variantOptions);
+
+      onVariantComplete?.(result, i);
+
+      onProgress?.({
+        phase: "generating",
+        currentVariant: i + 1,
+        totalVariants: variantCount,
+        message: `Completed variant ${i + 1}/${variantCount}`,
+        costSoFar: result.cost,
+      });
+
+      return result;
+    } catch (error) {
+      if (isFatalError(error)) {
+        onFatalError(error);
+      }
+      throw error;
+    }
+  });
+
+  return { variants, onProgress };
+}
+
+/**
+ * Generate variants in parallel. The first failure fails the whole call
+ * (a fatal error takes precedence over other failures).
+ */
+export async function generateVariantsWithProvider(
+  provider: RewriteProvider,
+  options: GenerateVariantsOptions
+): Promise<ProviderRewriteResult[]> {
+  let fatalError: unknown = null;
+  const { variants, onProgress } = startVariants(provider, options, (error) => {
+    fatalError ??= error;
+  });
+
+  try {
+    const results = await Promise.all(variants);
+
+    onProgress?.({
+      phase: "done",
+      currentVariant: options.variantCount,
+      totalVariants: options.variantCount,
+      message: "Rewrite complete",
+      costSoFar: results.reduce((sum, r) => sum + r.cost, 0),
+    });
+
+    return results;
+  } catch (error) {
+    throw fatalError ?? error;
+  }
+}
+
+/**
+ * Generate variants in parallel and report each one's outcome instead of
+ * failing on the first failed variant. A fatal error (bad key, unknown
+ * model, spent budget) cancels the variants still running; they are
+ * reported with that error.
+ */
+export async function generateVariantsSettledWithProvider(
+  provider: RewriteProvider,
+  options: GenerateVariantsOptions
+): Promise<SettledVariant[]> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(options.signal?.reason);
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  let fatalError: unknown = null;
+  try {
+    const { variants, onProgress } = startVariants(
+      provider,
+      { ...options, signal: controller.signal },
+      (error) => {
+        if (fatalError === null) {
+          fatalError = error;
+          controller.abort();
+        }
+      }
+    );
+
+    const settled = await Promise.allSettled(variants);
+    const outcomes = settled.map((outcome): SettledVariant =>
+      outcome.status === "fulfilled"
+        ? { status: "fulfilled", result: outcome.value }
+        : {
+            status: "rejected",
+            error: fatalError !== null && isAbortError(outcome.reason) ? fatalError : outcome.reason,
+          }
+    );
+
+    const completed = outcomes.filter((outcome) => outcome.status === "fulfilled");
+    onProgress?.({
+      phase: "done",
+      currentVariant: options.variantCount,
+      totalVariants: options.variantCount,
+      message: `Rewrite complete (${completed.length}/${options.variantCount} variants)`,
+      costSoFar: completed.reduce((sum, outcome) => sum + outcome.result.cost, 0),
+    });
+
+    return outcomes;
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
+  }
+}
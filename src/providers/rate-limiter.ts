@@ -0,0 +1,120 @@
+/**
+ * Rate Limiter
+ * ============
+ * Client-side requests-per-minute / tokens-per-minute limiter over a
+ * rolling one-minute window. Provider calls reserve their prompt tokens
+ * plus max output tokens (how OpenAI and Anthropic count TPM) before they
+ * start, so variants and chunks share one budget instead of flooding the API.
+ */
+
+import type { RateLimiter, RateLimiterOptions } from "../types.js";
+import { ValidationError } from "../types.js";
+import { sleep } from "../utils.js";
+
+const WINDOW_MS = 60_000;
+
+interface Reservation {
+  at: number;
+  tokens: number;
+}
+
+/** Resolve when the promise settles or the signal aborts, whichever comes first. */
+function untilSettledOrAborted(promise: Promise<unknown>, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return promise.then(() => undefined);
+  }
+  return new Promise((resolve) => {
+    const done = () => {
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    if (signal.aborted) {
+      done();
+      return;
+    }
+    signal.addEventListener("abort", done, { once: true });
+    promise.then(done);
+  });
+}
+
+/**
+ * Create a rate limiter. Pass it as `rateLimit` to several ContentRewriter
+ * instances to share one budget.
+ *
+ * @example
+ * ```typescript
+ * const limiter = createRateLimiter({ requestsPerMinute: 500, tokensPerMinute: 200_000 });
+ * const a = new ContentRewriter({ provider: "openai", apiKey, rateLimit: limiter });
+ * const b = new ContentRewriter({ provider: "openai", apiKey, rateLimit: limiter });
+ * ```
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const { requestsPerMinute: rpm, tokensPerMinute: tpm } = options;
+  for (const [name, value] of [
+    ["requestsPerMinute", rpm],
+    ["tokensPerMinute", tpm],
+  ] as const) {
+    if (value !== undefined && !(value > 0)) {
+      throw new ValidationError(`${name} must be a positive number`, { [name]: value });
+    }
+  }
+
+  const reservations: Reservation[] = [];
+  let tail: Promise<unknown> = Promise.resolve();
+  let waiting = 0;
+
+  /** Time until a request of `tokens` fits the window (0 = now) */
+  const delayFor = (tokens: number, now: number): number => {
+    while (reservations.length && reservations[0].at <= now - WINDOW_MS) {
+      reservations.shift();
+    }
+
+    let delay = 0;
+    if (rpm && reservations.length >= rpm) {
+      delay = reservations[reservations.length - rpm].at + WINDOW_MS - now;
+    }
+    if (tpm) {
+      // A request above the whole budget runs alone in an empty window
+      const needed = Math.min(tokens, tpm);
+      let used = reservations.reduce((sum, r) => sum + r.tokens, 0);
+      for (let i = 0; used + needed > tpm && i < reservations.length; i++) {
+        used -= reservations[i].tokens;
+        delay = Math.max(delay, reservations[i].at + WINDOW_MS - now);
+      }
+    }
+    return Math.max(delay, 0);
+  };
+
+  const take = async (tokens: number, startedAt: number, signal?: AbortSignal): Promise<number> => {
+    while (!signal?.aborted) {
+      const now = Date.now();
+      const delay = delayFor(tokens, now);
+      if (delay === 0) {
+        reservations.push({ at: now, tokens });
+        return now - startedAt;
+      }
+      await sleep(delay, signal);
+    }
+    return Date.now() - startedAt;
+  };
+
+  return {
+    acquire(tokens, signal) {
+      const startedAt = Date.now();
+      // Nobody queued and the request fits: reserve without waiting
+      if (waiting === 0 && !signal?.aborted && delayFor(tokens, startedAt) === 0) {
+        reservations.push({ at: startedAt, tokens });
+        return Promise.resolve(0);
+      }
+
+      waiting++;
+      const result = untilSettledOrAborted(tail, signal)
+        .then(() => take(tokens, startedAt, signal))
+        .finally(() => {
+          waiting--;
+        });
+      tail = result;
+      return result;
+    },
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Retry Policy
+ * ============
+ * Shared retry loop for provider calls: exponential backoff with jitter,
+ * Retry-After on rate limits and fatal error classification.
+ */
+
+import type { CompletionKind, ProviderType, RetryPolicy } from "../types.js";
+import { BudgetExceededError, ProviderError, RateLimitError } from "../types.js";
+import { PROCESSING } from "../constants.js";
+import { sleep } from "../utils.js";
+
+// =============================================================================
+// ERROR CLASSIFICATION
+// =============================================================================
+
+/**
+ * Errors that will not succeed on retry (bad key, unknown model, invalid request,
+ * spent budget).
+ * Providers map their SDK errors to ProviderError with `{ status, code }` details.
+ */
+export function isFatalError(error: unknown): boolean {
+  if (error instanceof BudgetExceededError) {
+    return true;
+  }
+  if (error instanceof ProviderError) {
+    const details = error.details as { code?: string; status?: number } | undefined;
+    const fatalCodes = [
+      "model_not_found",
+      "invalid_api_key",
+      "insufficient_quota",
+      "invalid_request_error",
+      "authentication_error",
+      "permission_error",
+      "not_found_error",
+      "cassette_miss",
+    ];
+    if (details?.code && fatalCodes.includes(details.code)) {
+      return true;
+    }
+    if (details?.status && details.status >= 400 && details.status < 500 && details.status !== 429) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Cancellation: native AbortErrors, SDK abort errors and ProviderErrors
+ * with code "aborted". Never retried and never failed over.
+ */
+export function isAbortError(error: unknown): boolean {
+  if (error instanceof ProviderError) {
+    return (error.details as { code?: string } | undefined)?.code === "aborted";
+  }
+  return (
+    error instanceof Error &&
+    (error.name === "AbortError" || /abort/i.test(error.constructor?.name || ""))
+  );
+}
+
+// =============================================================================
+// RETRY LOOP
+// =============================================================================
+
+/**
+ * Wait before the next attempt: the provider's Retry-After for rate limits,
+ * otherwise exponential backoff with jitter.
+ *
+ * @param attempt - Attempt that just failed (1-based)
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy = {}): number {
+  if (
+    error instanceof RateLimitError &&
+    error.retryAfter &&
+    policy.respectRetryAfter !== false
+  ) {
+    return error.retryAfter * 1000;
+  }
+
+  const base = policy.baseDelayMs ?? PROCESSING.RETRY_BASE_DELAY_MS;
+  const max = policy.maxDelayMs ?? PROCESSING.RETRY_MAX_DELAY_MS;
+  const jitter = Math.min(Math.max(policy.jitter ?? PROCESSING.RETRY_JITTER, 0), 1);
+
+  const delay = base * Math.pow(2, attempt - 1) * (1 + jitter * (Math.random() * 2 - 1));
+  return Math.round(Math.min(delay, max));
+}
+
+/**
+ * Run a provider call under a retry policy.
+ * Aborts and budget overruns are rethrown immediately; an abort during the
+ * wait ends it early.
+ *
+ * @example
+ * ```typescript
+ * const response = await withRetry(
+ *   () => provider.completeTitle(request),
+ *   { maxAttempts: 3 },
+ *   { kind: "title", provider: provider.type }
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = {},
+  context: { kind: CompletionKind; provider: ProviderType; signal?: AbortSignal }
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? PROCESSING.MAX_RETRIES);
+  const shouldRetry = policy.shouldRetry ?? ((error: unknown) => !isFatalError(error));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        isAbortError(error) ||
+        error instanceof BudgetExceededError ||
+        context.signal?.aborted ||
+        !shouldRetry(error, attempt)
+      ) {
+        throw error;
+      }
+
+      const delayMs = getRetryDelay(error, attempt, policy);
+      policy.onRetry?.({
+        attempt,
+        maxAttempts,
+        delayMs,
+        error,
+        kind: context.kind,
+        provider: context.provider,
+      });
+
+      await sleep(delayMs, context.signal);
+      if (context.signal?.aborted) {
+        throw new ProviderError("Request aborted", context.provider, { code: "aborted" });
+      }
+    }
+  }
+}
@@ -25,10 +25,37 @@ import type {
   RewriterOptions,
   RewriteCallOptions,
   ProviderConfig,
+  ProviderType,
   ProgressCallback,
   ContentFormat,
+  RewriteProvider,
+  FailoverOptions,
+  RetryPolicy,
+  RateLimiter,
+  CacheStore,
+  ProviderHealth,
+  StreamingCallback,
+  StreamingResult,
+  StructurePolicy,
+  FactPolicy,
+  FrontMatter,
+  FrontMatterOptions,
+  BatchInput,
+  BatchItemResult,
+  BatchJob,
+  BatchRewriteOptions,
+  BatchStatus,
+  BatchWaitOptions,
+  UsageBreakdown,
+  UsageRecord,
+  VariantOutcome,
+} from "./types.js";
+import {
+  ValidationError,
+  ProviderError,
+  BudgetExceededError,
+  RewriterError,
 } from "./types.js";
-import { ValidationError, ProviderError } from "./types.js";
 import { DEFAULTS, PROMPTS, type PromptTemplateKey } from "./constants.js";
 import {
   detectFormat,
@@ -36,12 +63,37 @@ import {
   extractTitleFromMarkdown,
   extractDescriptionFromHtml,
   normalizeArticleContent,
+  formatUsageRecords,
 } from "./utils.js";
 import {
-  generateVariantsWithOpenAI,
-  type OpenAIRewriteResult,
-} from "./providers/openai.js";
-import { maskAIPatterns, maskAIPatternsInHTML } from "./masker.js";
+  createCostBudget,
+  generateVariantsSettledWithProvider,
+  generateVariantsWithProvider,
+  summarizeUsage,
+  type CostBudget,
+  type GenerateVariantsOptions,
+  type ProviderRewriteResult,
+  type ProviderStreamEvent,
+} from "./providers/pipeline.js";
+import { createOpenAIProvider } from "./providers/openai.js";
+import { createAnthropicProvider } from "./providers/anthropic.js";
+import {
+  createFailoverProvider,
+  type FailoverProvider,
+} from "./providers/failover.js";
+import { createRateLimiter } from "./providers/rate-limiter.js";
+import { isAbortError } from "./providers/retry.js";
+import {
+  submitOpenAIBatch,
+  getOpenAIBatchStatus,
+  waitForOpenAIBatch,
+} from "./providers/openai-batch.js";
+import { maskAIPatterns, maskAIPatternsInHTML, maskAIPatternsInMarkdown } from "./masker.js";
+import { compareHtmlStructure } from "./structure.js";
+import { compareLinks, compareProtectedLinks, protectLinks, restoreLinks } from "./links.js";
+import { compareRewriteTerms } from "./terms.js";
+import { compareFacts } from "./facts.js";
+import { splitFrontMatter, updateFrontMatter } from "./frontmatter.js";
 
 // =============================================================================
 // CONTENT REWRITER CLASS
@@ -49,6 +101,23 @@ import { maskAIPatterns, maskAIPatternsInHTML } from "./masker.js";
 
 export class ContentRewriter {
   private readonly provider: ProviderConfig;
+  private readonly providerChain: ProviderConfig[];
+  private readonly failover: FailoverOptions;
+  private readonly retry: RetryPolicy;
+  private readonly rateLimiter?: RateLimiter;
+  /** Spend across all calls, when the instance has a maxCost */
+  private readonly budget?: CostBudget;
+  private readonly cache?: CacheStore;
+  private readonly checkpoints?: CacheStore;
+  private readonly structurePolicy?: StructurePolicy;
+  private readonly protectLinks: boolean;
+  private readonly protectedTerms: string[];
+  private readonly factPolicy?: FactPolicy;
+  private readonly frontMatter: FrontMatterOptions | false;
+  /** Every completed request, for billing reconciliation */
+  private readonly ledger: UsageRecord[] = [];
+  private callCount = 0;
+  private backend?: FailoverProvider;
   private readonly defaultTemperature: number;
   private readonly customPrompts: Record<
     string,
@@ -67,22 +136,59 @@ export class ContentRewriter {
    *   apiKey: process.env.OPENAI_API_KEY,
    *   model: 'gpt-4.1', // optional, defaults to gpt-4.1
    * });
+   *
+   * // Your own backend
+   * const custom = new ContentRewriter({
+   *   provider: 'custom',
+   *   customProvider: myGateway, // implements RewriteProvider
+   * });
+   *
+   * // Failover chain
+   * const resilient = new ContentRewriter({
+   *   providers: [
+   *     { type: 'openai', apiKey: process.env.OPENAI_API_KEY },
+   *     { type: 'anthropic', apiKey: process.env.ANTHROPIC_API_KEY },
+   *   ],
+   *   failover: { cooldownMs: 30_000 },
+   *   retry: { maxAttempts: 3 },
+   *   rateLimit: { requestsPerMinute: 500, tokensPerMinute: 200_000 },
+   *   maxCost: 25, // USD, across all calls
+   *   cache: createMemoryCache(),
+   * });
    * ```
    */
   constructor(options: RewriterOptions) {
-    if (!options.apiKey) {
-      throw new ValidationError("API key is required");
+    const chain: ProviderConfig[] = options.providers?.length
+      ? options.providers
+      : [
+          {
+            type: options.provider!,
+            apiKey: options.apiKey || "",
+            model: options.model,
+            baseUrl: options.baseUrl,
+            customProvider: options.customProvider,
+          },
+        ];
+
+    this.providerChain = chain.map((config) => this.normalizeProviderConfig(config));
+    this.provider = this.providerChain[0];
+    this.failover = options.failover || {};
+    this.retry = options.retry || {};
+    if (options.rateLimit) {
+      this.rateLimiter = "acquire" in options.rateLimit
+        ? options.rateLimit
+        : createRateLimiter(options.rateLimit);
     }
-    if (!options.provider) {
-      throw new ValidationError("Provider type is required");
+    if (options.maxCost !== undefined) {
+      this.budget = createCostBudget(options.maxCost);
     }
-
-    this.provider = {
-      type: options.provider,
-      apiKey: options.apiKey,
-      model: options.model || DEFAULTS.MODEL,
-      baseUrl: options.baseUrl,
-    };
+    this.cache = options.cache;
+    this.checkpoints = options.checkpoints;
+    this.structurePolicy = options.structurePolicy;
+    this.protectLinks = options.protectLinks ?? false;
+    this.protectedTerms = options.protectedTerms || [];
+    this.factPolicy = options.factPolicy;
+    this.frontMatter = options.frontMatter ?? {};
 
     this.defaultTemperature = options.temperature ?? DEFAULTS.TEMPERATURE;
     this.customPrompts = options.customPrompts || {};
@@ -112,29 +218,30 @@ export class ContentRewriter {
    *   variants: 5,
    *   onProgress: (p) => console.log(`${p.currentVariant}/${p.totalVariants}`),
    * });
+   *
+   * // Keep the variants that succeeded
+   * const outcomes = await rewriter.rewrite(html, { variants: 5, settled: true });
+   * const results = outcomes.flatMap((o) => (o.status === "fulfilled" ? [o.result] : []));
    * ```
    */
+  rewrite(
+    input: ContentInput | string,
+    options: RewriteCallOptions & { settled: true }
+  ): Promise<VariantOutcome[]>;
+  rewrite(
+    input: ContentInput | string,
+    options?: RewriteCallOptions & { settled?: false }
+  ): Promise<RewriteResult[]>;
+  rewrite(
+    input: ContentInput | string,
+    options?: RewriteCallOptions
+  ): Promise<RewriteResult[] | VariantOutcome[]>;
   async rewrite(
     input: ContentInput | string,
     options: RewriteCallOptions = {}
-  ): Promise<RewriteResult[]> {
-    // Normalize input
-    const normalizedInput: ContentInput =
-      typeof input === "string" ? { content: input } : input;
-
-    // Validate
-    this.validateInput(normalizedInput);
+  ): Promise<RewriteResult[] | VariantOutcome[]> {
     this.validateOptions(options);
-
-    // Detect format
-    const format = normalizedInput.format || detectFormat(normalizedInput.content);
-
-    // Extract metadata if not provided
-    const title =
-      normalizedInput.title || this.extractTitle(normalizedInput.content, format);
-    const description =
-      normalizedInput.description ||
-      this.extractDescription(normalizedInput.content, format);
+    const { content, title, description, format, frontMatter } = this.prepareInput(input);
 
     // Resolve prompt
     const prompt = this.resolvePrompt(options);
@@ -143,64 +250,122 @@ export class ContentRewriter {
     const variantCount = options.variants ?? DEFAULTS.VARIANT_COUNT;
     const temperature = options.temperature ?? this.defaultTemperature;
 
-    // Execute rewrite
-    const results = await this.executeRewrite({
-      content: normalizedInput.content,
+    // Execute rewrite (results are masked and normalized per variant)
+    return this.executeRewrite({
+      content,
       title,
       description,
       format,
       prompt,
       variantCount,
       temperature,
+      structuredOutput: options.structuredOutput ?? false,
+      stitch: options.stitch ?? false,
+      structurePolicy:
+        options.structurePolicy === false
+          ? undefined
+          : options.structurePolicy ?? this.structurePolicy,
+      protectLinks: options.protectLinks ?? this.protectLinks,
+      protectedTerms: [...this.protectedTerms, ...(options.protectedTerms || [])],
+      factPolicy: options.factPolicy === false ? undefined : options.factPolicy ?? this.factPolicy,
+      frontMatter,
+      shouldMask: options.maskAIPatterns !== false,
+      maxCost: options.maxCost,
+      useCache: options.cache !== false,
+      settled: options.settled ?? false,
+      jobId: options.jobId,
       onProgress: options.onProgress,
+      onStream: options.onStream,
       signal: options.signal,
     });
+  }
 
-    // Apply AI pattern masking (default: true) + normalization
-    // Order matters!
-    // 1. maskAIPatterns/maskAIPatternsInHTML
-    // 2. normalizeArticleContent (to fix spacing after masking)
-    const shouldMask = options.maskAIPatterns !== false;
-    
-    return results.map((result) => {
-      let processedTitle = result.title;
-      let processedDescription = result.description;
-      let processedContent = result.content;
-      
-      if (shouldMask) {
-        // Title: more conservative masking (no contractions, no structural removal)
-        processedTitle = maskAIPatterns(processedTitle, {
-          addNaturalVariations: false,
-          removeStructuralPatterns: false,
-        });
-        
-        // Description: apply most transformations
-        processedDescription = maskAIPatterns(processedDescription, {
-          addNaturalVariations: true,
-        });
-        
-        // Content: full masking for HTML, then normalize
-        if (format === "html") {
-          processedContent = maskAIPatternsInHTML(processedContent, {
-            addNaturalVariations: true,
-          });
-          // Normalize inline spacing AFTER masking (critical!)
-          processedContent = normalizeArticleContent(processedContent);
-        } else {
-          processedContent = maskAIPatterns(processedContent);
+  /**
+   * Rewrite content and stream updates as they are generated.
+   * Yields partial content per variant, the generated title and description,
+   * and a "final" event per variant carrying the masked and normalized result.
+   *
+   * Breaking out of the loop cancels the remaining work.
+   *
+   * @param input - Content to rewrite (string or ContentInput object)
+   * @param options - Optional settings for this specific rewrite
+   *
+   * @example
+   * ```typescript
+   * for await (const update of rewriter.rewriteStream(html, { variants: 2 })) {
+   *   if (update.event === "content") {
+   *     editor.preview(update.variantIndex, update.result.content);
+   *   } else if (update.isFinal) {
+   *     editor.save(update.variantIndex, update.result);
+   *   }
+   * }
+   * ```
+   */
+  async *rewriteStream(
+    input: ContentInput | string,
+    options: Omit<RewriteCallOptions, "onStream" | "settled"> = {}
+  ): AsyncGenerator<StreamingResult, void, undefined> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options.signal?.reason);
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+    }
+
+    const queue: StreamingResult[] = [];
+    let wake: (() => void) | null = null;
+    let done = false;
+    let failed = false;
+    let failure: unknown;
+
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    this.rewrite(input, {
+      ...options,
+      signal: controller.signal,
+      onStream: (update) => {
+        queue.push(update);
+        notify();
+      },
+    }).then(
+      () => {
+        done = true;
+        notify();
+      },
+      (error) => {
+        failure = error;
+        failed = true;
+        done = true;
+        notify();
+      }
+    );
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift()!;
+          continue;
         }
-      } else if (format === "html") {
-        // Even without masking, normalize HTML spacing
-        processedContent = normalizeArticleContent(processedContent);
+        if (failed) {
+          throw failure;
+        }
+        if (done) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
       }
-      
-      return {
-        ...result,
-        title: processedTitle,
-        description: processedDescription,
-        content: processedContent,
-      };
-    });
+    } finally {
+      options.signal?.removeEventListener("abort", onAbort);
+      if (!done) {
+        controller.abort();
+      }
+    }
   }
 
   /**
@@ -219,7 +384,7 @@ export class ContentRewriter {
    */
   async rewriteOne(
     input: ContentInput | string,
-    options: Omit<RewriteCallOptions, "variants"> = {}
+    options: Omit<RewriteCallOptions, "variants" | "settled"> = {}
   ): Promise<RewriteResult> {
     const results = await this.rewrite(input, { ...options, variants: 1 });
     if (results.length === 0) {
@@ -256,16 +421,312 @@ export class ContentRewriter {
   }
 
   /**
-   * Get current provider configuration.
+   * Get current provider configuration (first provider of a failover chain).
    */
   getProvider(): Readonly<ProviderConfig> {
     return { ...this.provider };
   }
 
+  /**
+   * Get health of every provider in the chain.
+   * Providers that failed over sit out the failover cooldown.
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.getBackend().getHealth();
+  }
+
+  // ===========================================================================
+  // USAGE LEDGER
+  // ===========================================================================
+
+  /**
+   * Every provider request this instance made, including those of failed
+   * or cancelled rewrites. Batch API usage is only on the batch results.
+   *
+   * @param range - Only records finished in [since, until) (ms since epoch)
+   */
+  getUsageLedger(range: { since?: number; until?: number } = {}): UsageRecord[] {
+    const since = range.since ?? -Infinity;
+    const until = range.until ?? Infinity;
+    return this.ledger.filter((record) => record.timestamp >= since && record.timestamp < until);
+  }
+
+  /**
+   * Totals of the usage ledger, overall and per request type.
+   */
+  getUsageSummary(range: { since?: number; until?: number } = {}): UsageBreakdown {
+    return summarizeUsage(this.getUsageLedger(range));
+  }
+
+  /**
+   * Export the usage ledger as JSON or CSV.
+   *
+   * @example
+   * ```typescript
+   * const start = Date.UTC(2026, 0, 1);
+   * const end = Date.UTC(2026, 1, 1);
+   * await writeFile("usage-2026-01.csv", rewriter.exportUsageLedger("csv", { since: start, until: end }));
+   * ```
+   */
+  exportUsageLedger(
+    format: "json" | "csv" = "json",
+    range: { since?: number; until?: number } = {}
+  ): string {
+    return formatUsageRecords(this.getUsageLedger(range), format);
+  }
+
+  /**
+   * Drop all ledger records (e.g. after exporting a billing period).
+   */
+  clearUsageLedger(): void {
+    this.ledger.length = 0;
+  }
+
+  // ===========================================================================
+  // BATCH PROCESSING
+  // ===========================================================================
+
+  /**
+   * Submit content for offline rewriting through the OpenAI Batch API
+   * (half the price, results within 24 hours). Requires an OpenAI provider.
+   *
+   * The returned job is plain JSON: store it and collect the results later
+   * with waitForBatch(), even from another process.
+   *
+   * @example
+   * ```typescript
+   * const job = await rewriter.submitBatch(pages.map((p) => ({ id: p.slug, content: p.html })));
+   * await fs.writeFile("batch-job.json", JSON.stringify(job));
+   *
+   * // Later
+   * const results = await rewriter.waitForBatch(job);
+   * ```
+   */
+  async submitBatch(
+    inputs: BatchInput[],
+    options: BatchRewriteOptions = {}
+  ): Promise<BatchJob> {
+    this.validateOptions(options);
+    const prompt = this.resolvePrompt(options);
+    const variantCount = options.variants ?? DEFAULTS.VARIANT_COUNT;
+    const temperature = options.temperature ?? this.defaultTemperature;
+
+    const frontMatters: (FrontMatter | undefined)[] = [];
+    const items = inputs.map((input, index) => {
+      const { frontMatter, ...prepared } = this.prepareInput(input);
+      frontMatters.push(frontMatter);
+      return {
+        ...prepared,
+        id: (typeof input === "string" ? undefined : input.id) ?? String(index),
+        prompt,
+        temperature,
+        variantCount,
+        protectLinks: options.protectLinks ?? this.protectLinks,
+        protectedTerms: [...this.protectedTerms, ...(options.protectedTerms || [])],
+      };
+    });
+
+    const job = await submitOpenAIBatch(this.getBatchProvider(), items, {
+      maskAIPatterns: options.maskAIPatterns !== false,
+      metadata: options.metadata,
+    });
+    // Kept with the job, so waitForBatch can write it back after a restart
+    job.items.forEach((item, index) => {
+      if (frontMatters[index]) {
+        item.frontMatter = frontMatters[index];
+      }
+    });
+    return job;
+  }
+
+  /**
+   * Check the progress of a submitted batch.
+   */
+  async getBatchStatus(job: BatchJob | string): Promise<BatchStatus> {
+    return getOpenAIBatchStatus(this.getBatchProvider(), job);
+  }
+
+  /**
+   * Wait for a batch to finish and return its results per input,
+   * masked and normalized like rewrite() results.
+   */
+  async waitForBatch(
+    job: BatchJob,
+    options: BatchWaitOptions = {}
+  ): Promise<BatchItemResult[]> {
+    const items = await waitForOpenAIBatch(this.getBatchProvider(), job, options);
+    return items.map((item, index) => {
+      const { frontMatter, placeholders } = job.items[index];
+      return {
+        ...item,
+        results: item.results.map((result) => {
+          const terms = placeholders?.terms ?? this.protectedTerms;
+          const processed = this.postProcess(result, job.maskAIPatterns, terms);
+          // Batch jobs do not keep the source; the placeholders are enough to compare
+          if (placeholders?.links) {
+            processed.links = compareProtectedLinks(placeholders.links, processed.content);
+          }
+          if (placeholders && placeholders.terms.length > 0) {
+            const { expectedTerms } = placeholders;
+            processed.terms = compareRewriteTerms(
+              {
+                content: expectedTerms.content.join("\n"),
+                title: expectedTerms.title.join("\n"),
+                description: expectedTerms.description.join("\n"),
+              },
+              processed,
+              placeholders.terms
+            );
+          }
+          return this.withFrontMatter(processed, frontMatter);
+        }),
+      };
+    });
+  }
+
+  /**
+   * Submit a batch and wait for its results (see submitBatch / waitForBatch).
+   */
+  async rewriteBatch(
+    inputs: BatchInput[],
+    options: BatchRewriteOptions & BatchWaitOptions = {}
+  ): Promise<BatchItemResult[]> {
+    const job = await this.submitBatch(inputs, options);
+    return this.waitForBatch(job, options);
+  }
+
   // ===========================================================================
   // PRIVATE METHODS
   // ===========================================================================
 
+  private normalizeProviderConfig(config: ProviderConfig): ProviderConfig {
+    if (!config.type) {
+      throw new ValidationError("Provider type is required");
+    }
+    if (config.type === "custom") {
+      if (!config.customProvider) {
+        throw new ValidationError("customProvider is required for custom provider");
+      }
+    } else if (!config.apiKey) {
+      throw new ValidationError("API key is required");
+    }
+
+    return {
+      ...config,
+      model:
+        config.model ||
+        config.customProvider?.model ||
+        (config.type === "anthropic" ? DEFAULTS.ANTHROPIC_MODEL : DEFAULTS.MODEL),
+    };
+  }
+
+  private resolveProvider(config: ProviderConfig): RewriteProvider {
+    switch (config.type) {
+      case "openai":
+        return createOpenAIProvider(config);
+
+      case "anthropic":
+        return createAnthropicProvider(config);
+
+      case "custom":
+        return config.customProvider!;
+
+      default:
+        throw new ValidationError(`Unknown provider type: ${config.type}`);
+    }
+  }
+
+  private getBackend(): FailoverProvider {
+    if (!this.backend) {
+      this.backend = createFailoverProvider(
+        this.providerChain.map((config) => this.resolveProvider(config)),
+        this.failover
+      );
+    }
+    return this.backend;
+  }
+
+  private getBatchProvider(): ProviderConfig {
+    const config = this.providerChain.find((provider) => provider.type === "openai");
+    if (!config) {
+      throw new ValidationError("Batch processing requires an OpenAI provider");
+    }
+    return config;
+  }
+
+  /**
+   * Normalize and validate input, split off front matter, detect its format
+   * and extract missing metadata.
+   */
+  private prepareInput(input: ContentInput | string): {
+    content: string;
+    title: string;
+    description: string;
+    format: ContentFormat;
+    frontMatter?: FrontMatter;
+  } {
+    // Normalize input
+    const normalizedInput: ContentInput =
+      typeof input === "string" ? { content: input } : input;
+
+    // Validate
+    this.validateInput(normalizedInput);
+
+    // Front matter is not rewritten; it supplies the title and description
+    const { frontMatter, body: content } = this.frontMatter
+      ? splitFrontMatter(normalizedInput.content)
+      : { frontMatter: undefined, body: normalizedInput.content };
+    if (frontMatter && !content.trim()) {
+      throw new ValidationError("Content cannot be empty (only front matter was found)");
+    }
+
+    // Detect format
+    const format = normalizedInput.format || detectFormat(content);
+
+    // Extract metadata if not provided
+    const title =
+      normalizedInput.title ||
+      this.frontMatterValue(frontMatter, "title") ||
+      this.extractTitle(content, format);
+    const description =
+      normalizedInput.description ||
+      this.frontMatterValue(frontMatter, "description") ||
+      this.extractDescription(content, format);
+
+    return { content, title, description, format, frontMatter };
+  }
+
+  /** Front matter field configured for the title or description (undefined when disabled) */
+  private frontMatterField(kind: "title" | "description"): string | undefined {
+    return (this.frontMatter && (this.frontMatter[kind] ?? kind)) || undefined;
+  }
+
+  private frontMatterValue(
+    frontMatter: FrontMatter | undefined,
+    kind: "title" | "description"
+  ): string {
+    const field = this.frontMatterField(kind);
+    return (field && frontMatter?.fields[field]?.trim()) || "";
+  }
+
+  /**
+   * Put the input's front matter back in front of the content, with the
+   * rewritten title and description in their configured fields.
+   */
+  private withFrontMatter(result: RewriteResult, frontMatter?: FrontMatter): RewriteResult {
+    if (!frontMatter) {
+      return result;
+    }
+    const values: Record<string, string> = {};
+    for (const kind of ["title", "description"] as const) {
+      const field = this.frontMatterField(kind);
+      if (field && result[kind]) {
+        values[field] = result[kind];
+      }
+    }
+    return { ...result, content: updateFrontMatter(frontMatter, values) + result.content };
+  }
+
   private validateInput(input: ContentInput): void {
     if (!input.content || typeof input.content !== "string") {
       throw new ValidationError("Content is required and must be a string");
@@ -285,6 +746,12 @@ export class ContentRewriter {
     ) {
       throw new ValidationError("Temperature must be between 0 and 2");
     }
+    if (options.maxCost !== undefined && !(options.maxCost >= 0)) {
+      throw new ValidationError("maxCost must be a non-negative number");
+    }
+    if (options.jobId !== undefined && !this.checkpoints) {
+      throw new ValidationError("jobId requires a checkpoints store in the constructor options");
+    }
   }
 
   private extractTitle(content: string, format: ContentFormat): string {
@@ -337,6 +804,82 @@ export class ContentRewriter {
     return template.prompt;
   }
 
+  /**
+   * Apply AI pattern masking (optional) and normalization to a result.
+   * Links and protected terms are never masked.
+   */
+  private postProcess(
+    result: RewriteResult,
+    shouldMask: boolean,
+    protectedTerms: string[]
+  ): RewriteResult {
+    // Order matters!
+    // 1. maskAIPatterns/maskAIPatternsInHTML
+    // 2. normalizeArticleContent (to fix spacing after masking)
+    let processedTitle = result.title;
+    let processedDescription = result.description;
+    let processedContent = result.content;
+
+    // The masker edits attribute text and words inside URLs; keep links out of its reach
+    const maskOutsideLinks = (text: string, mask: (text: string) => string) => {
+      const shielded = protectLinks(text);
+      return restoreLinks(mask(shielded.content), shielded);
+    };
+
+    if (shouldMask) {
+      // Title: more conservative masking (no contractions, no structural removal)
+      processedTitle = maskOutsideLinks(processedTitle, (text) =>
+        maskAIPatterns(text, {
+          addNaturalVariations: false,
+          removeStructuralPatterns: false,
+          protectedTerms,
+        })
+      );
+
+      // Description: apply most transformations
+      processedDescription = maskOutsideLinks(processedDescription, (text) =>
+        maskAIPatterns(text, {
+          addNaturalVariations: true,
+          protectedTerms,
+        })
+      );
+
+      // Content: full masking for HTML, then normalize
+      if (result.format === "html") {
+        processedContent = maskOutsideLinks(processedContent, (text) =>
+          maskAIPatternsInHTML(text, {
+            addNaturalVariations: true,
+            protectedTerms,
+          })
+        );
+        // Normalize inline spacing AFTER masking (critical!)
+        processedContent = normalizeArticleContent(processedContent);
+      } else if (result.format === "markdown") {
+        // Line by line, keeping code, list markers and Markdown syntax
+        processedContent = maskOutsideLinks(processedContent, (text) =>
+          maskAIPatternsInMarkdown(text, {
+            addNaturalVariations: true,
+            protectedTerms,
+          })
+        );
+      } else {
+        processedContent = maskOutsideLinks(processedContent, (text) =>
+          maskAIPatterns(text, { protectedTerms })
+        );
+      }
+    } else if (result.format === "html") {
+      // Even without masking, normalize HTML spacing
+      processedContent = normalizeArticleContent(processedContent);
+    }
+
+    return {
+      ...result,
+      title: processedTitle,
+      description: processedDescription,
+      content: processedContent,
+    };
+  }
+
   private async executeRewrite(params: {
     content: string;
     title: string;
@@ -345,27 +888,79 @@ export class ContentRewriter {
     prompt: string;
     variantCount: number;
     temperature: number;
+    structuredOutput: boolean;
+    stitch: boolean;
+    structurePolicy?: StructurePolicy;
+    protectLinks: boolean;
+    protectedTerms: string[];
+    factPolicy?: FactPolicy;
+    frontMatter?: FrontMatter;
+    shouldMask: boolean;
+    maxCost?: number;
+    useCache: boolean;
+    settled: boolean;
+    jobId?: string;
     onProgress?: ProgressCallback;
+    onStream?: StreamingCallback;
     signal?: AbortSignal;
-  }): Promise<RewriteResult[]> {
-    const { format, onProgress, signal, ...rewriteParams } = params;
-
-    switch (this.provider.type) {
-      case "openai":
-        return this.executeOpenAIRewrite(rewriteParams, format, onProgress, signal);
+  }): Promise<RewriteResult[] | VariantOutcome[]> {
+    const {
+      format,
+      shouldMask,
+      maxCost,
+      useCache,
+      settled,
+      jobId,
+      onProgress,
+      onStream,
+      signal,
+      ...rewriteParams
+    } = params;
+    const cache = useCache ? this.cache : undefined;
 
-      case "anthropic":
-        throw new ProviderError("Anthropic provider is not yet implemented", "anthropic");
+    if (maxCost === undefined && !this.budget) {
+      return this.executeProviderRewrite(this.getBackend(), rewriteParams, format, {
+        shouldMask,
+        onProgress,
+        onStream,
+        signal,
+        cache,
+        settled,
+        jobId,
+      });
+    }
 
-      case "custom":
-        throw new ProviderError("Custom provider requires implementation", "custom");
+    // Running out of budget cancels the remaining chunks and variants
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+    const budget = createCostBudget(maxCost ?? Infinity, {
+      parent: this.budget,
+      onExceeded: () => controller.abort(),
+    });
 
-      default:
-        throw new ValidationError(`Unknown provider type: ${this.provider.type}`);
+    try {
+      return await this.executeProviderRewrite(this.getBackend(), rewriteParams, format, {
+        shouldMask,
+        onProgress,
+        onStream,
+        signal: controller.signal,
+        budget,
+        cache,
+        settled,
+        jobId,
+      });
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
     }
   }
 
-  private async executeOpenAIRewrite(
+  private async executeProviderRewrite(
+    provider: RewriteProvider,
     params: {
       content: string;
       title: string;
@@ -373,40 +968,158 @@ export class ContentRewriter {
       prompt: string;
       variantCount: number;
       temperature: number;
+      structuredOutput: boolean;
+      stitch: boolean;
+      structurePolicy?: StructurePolicy;
+      protectLinks: boolean;
+      protectedTerms: string[];
+      factPolicy?: FactPolicy;
+      frontMatter?: FrontMatter;
     },
     format: ContentFormat,
-    onProgress?: ProgressCallback,
-    signal?: AbortSignal
-  ): Promise<RewriteResult[]> {
+    hooks: {
+      shouldMask: boolean;
+      onProgress?: ProgressCallback;
+      onStream?: StreamingCallback;
+      signal?: AbortSignal;
+      budget?: CostBudget;
+      cache?: CacheStore;
+      settled?: boolean;
+      jobId?: string;
+    }
+  ): Promise<RewriteResult[] | VariantOutcome[]> {
+    const { shouldMask, onProgress, onStream, signal, budget, cache, settled, jobId } = hooks;
     const results: RewriteResult[] = [];
+    const call = ++this.callCount;
 
-    const openAIResults = await generateVariantsWithOpenAI(this.provider, {
+    const variantOptions: GenerateVariantsOptions = {
       content: params.content,
       title: params.title,
       description: params.description,
+      format,
       prompt: params.prompt,
       variantCount: params.variantCount,
       temperature: params.temperature,
+      structuredOutput: params.structuredOutput,
+      stitch: params.stitch,
+      structurePolicy: params.structurePolicy,
+      protectLinks: params.protectLinks,
+      protectedTerms: params.protectedTerms,
+      factPolicy: params.factPolicy,
+      retry: this.retry,
+      rateLimiter: this.rateLimiter,
+      budget,
+      cache,
+      checkpointStore: this.checkpoints,
+      jobId,
       onProgress,
       signal,
-      onVariantComplete: (result: OpenAIRewriteResult, index: number) => {
-        results[index] = {
-          content: result.html,
-          title: result.title,
-          description: result.description,
-          cost: result.cost,
-          format,
-        };
+      onUsage: (entry) => {
+        this.ledger.push({ ...entry, variant: entry.variant ?? 0, timestamp: Date.now(), call });
       },
-    });
+      // Mask each variant as it completes so the final stream event matches the returned result
+      onVariantComplete: (result: ProviderRewriteResult, index: number) => {
+        results[index] = this.postProcess(
+          {
+            content: result.html,
+            title: result.title,
+            description: result.description,
+            cost: result.cost,
+            format,
+            provider: result.provider,
+            model: result.model,
+            usage: summarizeUsage(result.usage),
+          },
+          shouldMask,
+          params.protectedTerms
+        );
+        if (format === "html") {
+          results[index].structure = compareHtmlStructure(
+            params.content,
+            results[index].content,
+            params.structurePolicy?.checks
+          );
+        }
+        results[index].links = compareLinks(params.content, results[index].content);
+        results[index].facts = compareFacts(
+          params.content,
+          results[index].content,
+          params.factPolicy?.kinds
+        );
+        if (params.protectedTerms.length > 0) {
+          results[index].terms = compareRewriteTerms(params, results[index], params.protectedTerms);
+        }
+        // After the checks, which compare the content without front matter
+        results[index] = this.withFrontMatter(results[index], params.frontMatter);
+        onStream?.({
+          event: "final",
+          result: results[index],
+          isFinal: true,
+          variantIndex: index,
+        });
+      },
+      onVariantStream: onStream
+        ? (update: ProviderStreamEvent, index: number) => {
+            const result: Partial<RewriteResult> =
+              update.field === "content"
+                ? { content: update.text, format }
+                : { [update.field]: update.text };
+            onStream({ event: update.field, result, isFinal: false, variantIndex: index });
+          }
+        : undefined,
+    };
 
-    return openAIResults.map((result) => ({
-      content: result.html,
-      title: result.title,
-      description: result.description,
-      cost: result.cost,
-      format,
-    }));
+    // Other variants fail with aborts once the budget runs out; report the budget
+    const budgetError = () => {
+      const exceededBy = budget?.exceededBy;
+      return exceededBy
+        ? new BudgetExceededError(exceededBy.maxCost, exceededBy.spent, results.filter(Boolean), {
+            scope: exceededBy === this.budget ? "instance" : "call",
+          })
+        : undefined;
+    };
+
+    if (settled) {
+      const outcomes = await generateVariantsSettledWithProvider(provider, variantOptions);
+      const exceeded = budgetError();
+      return outcomes.map((outcome, index): VariantOutcome => {
+        if (outcome.status === "fulfilled") {
+          return { status: "fulfilled", variantIndex: index, result: results[index] };
+        }
+        const { error } = outcome;
+        return {
+          status: "rejected",
+          variantIndex: index,
+          error:
+            exceeded && (error instanceof BudgetExceededError || isAbortError(error))
+              ? exceeded
+              : toRewriterError(error, provider.type),
+        };
+      });
+    }
+
+    try {
+      await generateVariantsWithProvider(provider, variantOptions);
+    } catch (error) {
+      throw budgetError() ?? error;
+    }
+
+    return results;
   }
 }
 
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Settled outcomes always carry a RewriterError; wrap anything else */
+function toRewriterError(error: unknown, provider: ProviderType): RewriterError {
+  if (error instanceof RewriterError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProviderError(message, provider, {
+    code: isAbortError(error) ? "aborted" : undefined,
+    cause: error,
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * HTML Structure Check
+ * ====================
+ * Compares the structure of rewritten HTML with its source: heading
+ * outline, list and table counts, and well-formedness (unclosed, stray
+ * or cut-off tags).
+ */
+
+import type {
+  HtmlStructure,
+  StructureCheck,
+  StructureIssue,
+  StructureReport,
+} from "./types.js";
+
+// =============================================================================
+// ANALYSIS
+// =============================================================================
+
+const ALL_CHECKS: StructureCheck[] = ["headings", "lists", "tables", "well_formed"];
+
+/** Elements without a closing tag */
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+/** Elements whose closing tag HTML allows to be omitted */
+const OPTIONAL_END_TAGS = new Set([
+  "p", "li", "dt", "dd", "tr", "td", "th", "thead", "tbody", "tfoot", "option",
+]);
+
+/** Elements whose content is not parsed as markup */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea"]);
+
+/**
+ * Describe the structure of an HTML fragment.
+ */
+export function analyzeHtmlStructure(html: string): HtmlStructure {
+  const structure: HtmlStructure = { headings: [], lists: 0, listItems: 0, tables: 0, errors: [] };
+  const stack: string[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w:-]*)\b[^>]*?(\/?)>/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    const [tag, closing, rawName, selfClosing] = match;
+    if (!rawName) {
+      continue;
+    }
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      const open = stack.lastIndexOf(name);
+      if (open === -1) {
+        structure.errors.push(`stray </${name}>`);
+        continue;
+      }
+      // Elements left open inside it must allow an omitted end tag
+      for (const unclosed of stack.slice(open + 1)) {
+        if (!OPTIONAL_END_TAGS.has(unclosed)) {
+          structure.errors.push(`unclosed <${unclosed}> inside <${name}>`);
+        }
+      }
+      stack.length = open;
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(name)) {
+      structure.headings.push(name);
+    } else if (name === "ul" || name === "ol") {
+      structure.lists++;
+    } else if (name === "li") {
+      structure.listItems++;
+    } else if (name === "table") {
+      structure.tables++;
+    }
+
+    if (VOID_ELEMENTS.has(name) || selfClosing) {
+      continue;
+    }
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = html.toLowerCase().indexOf(`</${name}`, match.index + tag.length);
+      if (close === -1) {
+        structure.errors.push(`unclosed <${name}>`);
+        break;
+      }
+      tagPattern.lastIndex = close;
+      stack.push(name);
+      continue;
+    }
+    stack.push(name);
+  }
+
+  for (const unclosed of stack) {
+    if (!OPTIONAL_END_TAGS.has(unclosed)) {
+      structure.errors.push(`unclosed <${unclosed}>`);
+    }
+  }
+
+  // A "<" with no ">" after it: the output was cut off inside a tag
+  const lastOpen = html.lastIndexOf("<");
+  if (lastOpen !== -1 && html.indexOf(">", lastOpen) === -1 && /^<\/?[a-zA-Z]/.test(html.slice(lastOpen))) {
+    structure.errors.push("cut-off tag at the end");
+  }
+
+  return structure;
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Compare rewritten HTML with its source.
+ *
+ * @param checks - Aspects to compare (default: all)
+ *
+ * @example
+ * ```typescript
+ * const report = compareHtmlStructure(original, result.content);
+ * if (!report.passed) {
+ *   console.warn(report.issues.map((issue) => issue.message));
+ * }
+ * ```
+ */
+export function compareHtmlStructure(
+  source: string,
+  output: string,
+  checks: StructureCheck[] = ALL_CHECKS
+): StructureReport {
+  const before = analyzeHtmlStructure(source);
+  const after = analyzeHtmlStructure(output);
+  const issues: StructureIssue[] = [];
+
+  if (checks.includes("headings") && before.headings.join() !== after.headings.join()) {
+    issues.push({
+      check: "headings",
+      message: `Heading outline changed: ${before.headings.join(" ") || "none"} -> ${after.headings.join(" ") || "none"}`,
+    });
+  }
+  if (checks.includes("lists") && before.lists !== after.lists) {
+    issues.push({
+      check: "lists",
+      message: `Expected ${before.lists} list(s), got ${after.lists}`,
+    });
+  }
+  if (checks.includes("tables") && before.tables !== after.tables) {
+    issues.push({
+      check: "tables",
+      message: `Expected ${before.tables} table(s), got ${after.tables}`,
+    });
+  }
+  // Problems already in the source are not the rewrite's fault
+  if (checks.includes("well_formed") && after.errors.length > before.errors.length) {
+    issues.push({
+      check: "well_formed",
+      message: `Malformed HTML: ${after.errors.slice(0, 5).join(", ")}`,
+    });
+  }
+
+  return { passed: issues.length === 0, issues, source: before, output: after };
+}
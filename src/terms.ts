@@ -0,0 +1,125 @@
+/**
+ * Protected Terms
+ * ===============
+ * Brand names and keywords that must survive a rewrite exactly as written.
+ * protectTerms swaps them for placeholders before content reaches a model
+ * (or the masker); restoreTerms puts them back. compareTerms reports the
+ * terms of the source that a rewrite lost.
+ */
+
+import type { TermReport } from "./types.js";
+
+// =============================================================================
+// PLACEHOLDERS
+// =============================================================================
+
+const TERM_PLACEHOLDER = /\{\{rw-term-(\d+)\}\}/g;
+
+/** Tags, link placeholders and Markdown link targets are never searched for terms */
+const SKIPPED_SEGMENTS = /(<[^>]*>|\{\{rw-[\w-]+\}\}|\]\([^)]*\))/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Pattern matching any of the terms as a whole phrase, longest first so
+ * "Acme Pay" wins over "Acme". Word boundaries apply at word-character edges only.
+ */
+function termPattern(terms: string[]): RegExp | null {
+  const alternatives = [...new Set(terms.filter((term) => term.trim()))]
+    .sort((a, b) => b.length - a.length)
+    .map((term) => {
+      const start = /^\w/.test(term) ? "\\b" : "";
+      const end = /\w$/.test(term) ? "\\b" : "";
+      return `${start}${escapeRegExp(term)}${end}`;
+    });
+  return alternatives.length > 0 ? new RegExp(alternatives.join("|"), "g") : null;
+}
+
+/** Run `replace` on every term occurrence outside tags and placeholders */
+function replaceTerms(content: string, terms: string[], replace: (term: string) => string): string {
+  const pattern = termPattern(terms);
+  if (!pattern) {
+    return content;
+  }
+  return content
+    .split(SKIPPED_SEGMENTS)
+    .map((part, i) => (i % 2 === 1 ? part : part.replace(pattern, replace)))
+    .join("");
+}
+
+/**
+ * Replace every occurrence of the terms with `{{rw-term-N}}`, where N is
+ * the term's position in `terms` (1-based). The same term always gets the
+ * same placeholder, so title, description and content can be shielded separately.
+ *
+ * @example
+ * ```typescript
+ * const terms = ["Acme Pay", "FastSpin"];
+ * const shielded = protectTerms(html, terms);
+ * const restored = restoreTerms(await rewrite(shielded), terms);
+ * ```
+ */
+export function protectTerms(content: string, terms: string[]): string {
+  return replaceTerms(content, terms, (term) => `{{rw-term-${terms.indexOf(term) + 1}}}`);
+}
+
+/**
+ * Put the terms back. Placeholders with unknown numbers are left as they are.
+ */
+export function restoreTerms(content: string, terms: string[]): string {
+  return content.replace(TERM_PLACEHOLDER, (match, id: string) => terms[Number(id) - 1] ?? match);
+}
+
+// =============================================================================
+// TERM REPORT
+// =============================================================================
+
+function countTerms(content: string, terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  replaceTerms(content, terms, (term) => {
+    counts.set(term, (counts.get(term) || 0) + 1);
+    return term;
+  });
+  return counts;
+}
+
+/**
+ * Check which protected terms of the source are missing from a rewrite.
+ * Terms the source does not contain are not required.
+ *
+ * @example
+ * ```typescript
+ * const report = compareTerms(original, result.content, ["Acme Pay"]);
+ * if (!report.passed) {
+ *   console.warn("Missing:", report.missing);
+ * }
+ * ```
+ */
+export function compareTerms(source: string, output: string, terms: string[]): TermReport {
+  const expected = [...countTerms(source, terms).keys()];
+  const found = countTerms(output, terms);
+  const missing = expected.filter((term) => !found.has(term));
+  return { passed: missing.length === 0, expected, missing };
+}
+
+/**
+ * compareTerms for a whole rewrite: the content, plus the title and
+ * description when their source contains protected terms.
+ */
+export function compareRewriteTerms(
+  source: { content: string; title: string; description: string },
+  output: { content: string; title: string; description: string },
+  terms: string[]
+): TermReport {
+  const report = compareTerms(source.content, output.content, terms);
+  for (const field of ["title", "description"] as const) {
+    const fieldReport = compareTerms(source[field], output[field], terms);
+    if (fieldReport.expected.length > 0) {
+      report[field] = fieldReport;
+      report.passed &&= fieldReport.passed;
+    }
+  }
+  return report;
+}
@@ -0,0 +1,66 @@
+/**
+ * Tokenizer
+ * =========
+ * Offline BPE token counting (cl100k_base / o200k_base).
+ * Encodings are bundled, so this works the same in Node and browsers.
+ */
+
+import { countTokens as countCl100k } from "gpt-tokenizer/encoding/cl100k_base";
+import { countTokens as countO200k } from "gpt-tokenizer/encoding/o200k_base";
+
+// =============================================================================
+// ENCODINGS
+// =============================================================================
+
+export type TokenizerEncoding = "cl100k_base" | "o200k_base";
+
+/** Model prefixes that use o200k_base; everything else counts with cl100k_base */
+const O200K_MODEL_PREFIXES = ["gpt-4o", "gpt-4.1", "gpt-4.5", "gpt-5", "o1", "o3", "o4", "chatgpt-4o"];
+
+/**
+ * Get the encoding used to count tokens for a model.
+ * Non-OpenAI models (e.g. Claude) have no public tokenizer and are
+ * approximated with cl100k_base.
+ */
+export function getEncodingForModel(model: string): TokenizerEncoding {
+  return O200K_MODEL_PREFIXES.some((prefix) => model.startsWith(prefix))
+    ? "o200k_base"
+    : "cl100k_base";
+}
+
+function isEncoding(value: string): value is TokenizerEncoding {
+  return value === "cl100k_base" || value === "o200k_base";
+}
+
+// =============================================================================
+// COUNTING
+// =============================================================================
+
+/**
+ * Count tokens in text.
+ *
+ * @param text - Text to count
+ * @param modelOrEncoding - Model name or encoding (default: "o200k_base")
+ *
+ * @example
+ * ```typescript
+ * countTokens("Привет, мир!", "gpt-4.1");
+ * countTokens(html, "cl100k_base");
+ * ```
+ */
+export function countTokens(
+  text: string,
+  modelOrEncoding: string = "o200k_base"
+): number {
+  if (!text) {
+    return 0;
+  }
+  const encoding = isEncoding(modelOrEncoding)
+    ? modelOrEncoding
+    : getEncodingForModel(modelOrEncoding);
+
+  // Special token markers in user content are counted as plain text
+  return encoding === "o200k_base"
+    ? countO200k(text, { disallowedSpecial: new Set() })
+    : countCl100k(text, { disallowedSpecial: new Set() });
+}
@@ -32,8 +32,29 @@ export interface RewriteResult {
   cost?: number;
   /** Original format that was detected/used */
   format: ContentFormat;
+  /** Provider that produced the content (after any failover) */
+  provider?: ProviderType;
+  /** Model that produced the content (after any failover) */
+  model?: string;
+  /** Tokens, cost and latency per request behind this result */
+  usage?: UsageBreakdown;
+  /** Structure of the rewritten HTML compared with the input (HTML only) */
+  structure?: StructureReport;
+  /** Links of the rewritten content compared with the input */
+  links?: LinkReport;
+  /** Protected terms of the input missing from the rewritten content, title and description */
+  terms?: TermReport;
+  /** Numbers, amounts, dates and odds of the input compared with the rewritten content */
+  facts?: FactReport;
 }
 
+/**
+ * One variant's outcome in settled mode (`rewrite(input, { settled: true })`).
+ */
+export type VariantOutcome =
+  | { status: "fulfilled"; variantIndex: number; result: RewriteResult }
+  | { status: "rejected"; variantIndex: number; error: RewriterError };
+
 // =============================================================================
 // PROVIDER TYPES
 // =============================================================================
@@ -55,6 +76,480 @@ export interface ProviderConfig {
   baseUrl?: string;
   /** Additional provider-specific options */
   options?: Record<string, unknown>;
+  /** Provider implementation, required when type is "custom" */
+  customProvider?: RewriteProvider;
+}
+
+// =============================================================================
+// PROVIDER IMPLEMENTATION
+// =============================================================================
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * A single completion request built by the rewrite pipeline.
+ * Providers map it onto their own API and ignore parameters they do not support.
+ */
+export interface CompletionRequest {
+  /** Conversation to complete (system prompt first, if any) */
+  messages: ChatMessage[];
+  /** Sampling temperature */
+  temperature: number;
+  /** Maximum tokens to generate */
+  maxTokens: number;
+  /** Nucleus sampling */
+  topP?: number;
+  /** Frequency penalty (OpenAI-style) */
+  frequencyPenalty?: number;
+  /** Presence penalty (OpenAI-style) */
+  presencePenalty?: number;
+  /** Abort signal for cancellation */
+  signal?: AbortSignal;
+  /**
+   * Receive text deltas as they are generated. Providers that cannot stream
+   * may ignore it; the full text is still returned in the response.
+   */
+  onDelta?: (delta: string) => void;
+  /**
+   * Called when the text streamed so far is discarded and the completion
+   * starts over (e.g. another provider took over after a failure).
+   */
+  onRestart?: () => void;
+  /**
+   * Ask for JSON output matching a schema. Providers without native
+   * structured output may ignore it; the prompt asks for JSON as well.
+   */
+  responseFormat?: JsonSchemaFormat;
+}
+
+export interface JsonSchemaFormat {
+  type: "json_schema";
+  /** Schema name (letters, digits, underscores) */
+  name: string;
+  /** JSON Schema the output must match */
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Which pipeline step a completion serves. "stitch" requests (coherence
+ * pass over chunk boundaries) are sent with completeContent.
+ */
+export type CompletionKind = "content" | "title" | "description" | "stitch";
+
+export interface CompletionUsage {
+  /** Prompt tokens billed (including cached ones) */
+  inputTokens: number;
+  /** Completion tokens billed */
+  outputTokens: number;
+  /** Part of inputTokens served from the provider's prompt cache */
+  cachedInputTokens?: number;
+}
+
+/** One completed provider request */
+export interface UsageEntry {
+  /** Pipeline step the request served */
+  kind: CompletionKind;
+  /** Chunk index for chunked content (0-based) */
+  chunk?: number;
+  /** Variant index (0-based; set on ledger records) */
+  variant?: number;
+  /** Provider that served the request (after any failover) */
+  provider: ProviderType;
+  /** Model that served the request */
+  model: string;
+  /** Prompt tokens (including cached ones) */
+  inputTokens: number;
+  /** Part of inputTokens served from the prompt cache */
+  cachedInputTokens: number;
+  /** Completion tokens */
+  outputTokens: number;
+  /** Cost in USD */
+  cost: number;
+  /** Duration of the successful attempt (ms; 0 for Batch API requests) */
+  latencyMs: number;
+  /** Attempts it took, including retries */
+  attempts: number;
+}
+
+export interface UsageTotals {
+  /** Completed requests */
+  requests: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  /** Cost in USD */
+  cost: number;
+  /** Summed request durations (ms) */
+  latencyMs: number;
+}
+
+export interface UsageBreakdown extends UsageTotals {
+  /** Totals per request type */
+  byKind: Record<CompletionKind, UsageTotals>;
+  /** Every request, in completion order */
+  entries: UsageEntry[];
+}
+
+/** Entry in a ContentRewriter's usage ledger */
+export interface UsageRecord extends UsageEntry {
+  /** When the request finished (ms since epoch) */
+  timestamp: number;
+  /** Sequence number of the rewrite call on the instance (1-based) */
+  call: number;
+  variant: number;
+}
+
+export interface CompletionResponse {
+  /** Raw completion text */
+  text: string;
+  /** Token usage reported by the provider */
+  usage: CompletionUsage;
+  /** Provider that served the request (defaults to the provider type) */
+  provider?: ProviderType;
+  /** Model that served the request (defaults to the provider model) */
+  model?: string;
+  /** Cost in USD, if the provider knows it better than the pricing table */
+  cost?: number;
+}
+
+/**
+ * Completion backend used by the rewrite pipeline.
+ * Chunking, variant fan-out and retries run on top of it.
+ * Implement this to plug in your own model gateway with `provider: "custom"`.
+ *
+ * Throw `RateLimitError` on throttling and `ProviderError` with
+ * `{ status, code }` details on API errors, so retries can tell
+ * transient failures from fatal ones.
+ *
+ * @example
+ * ```typescript
+ * const gateway: RewriteProvider = {
+ *   type: "custom",
+ *   model: "gpt-4.1",
+ *   completeContent: (req) => callGateway("content", req),
+ *   completeTitle: (req) => callGateway("title", req),
+ *   completeDescription: (req) => callGateway("description", req),
+ * };
+ * ```
+ */
+export interface RewriteProvider {
+  /** Provider type reported in errors ("custom" for your own implementations) */
+  readonly type: ProviderType;
+  /** Model used for cost calculation */
+  readonly model: string;
+  /**
+   * Every model that may serve a request (e.g. all models of a failover
+   * chain); content is chunked to fit the smallest. Defaults to `model`.
+   */
+  readonly models?: readonly string[];
+  /** Complete an article body (or a chunk of it) */
+  completeContent(request: CompletionRequest): Promise<CompletionResponse>;
+  /** Complete a page title */
+  completeTitle(request: CompletionRequest): Promise<CompletionResponse>;
+  /** Complete a meta description */
+  completeDescription(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+// =============================================================================
+// FAILOVER
+// =============================================================================
+
+/**
+ * Error categories that can trigger a switch to the next provider.
+ * - rate_limit: RateLimitError (429)
+ * - server_error: ProviderError with a 5xx status (incl. 529 overloaded)
+ * - network: connection failures and timeouts (no HTTP status)
+ * - any: every error except cancellation
+ */
+export type FailoverTrigger = "rate_limit" | "server_error" | "network" | "any";
+
+export interface FailoverOptions {
+  /** Errors that switch to the next provider (default: rate_limit, server_error, network) */
+  failoverOn?: FailoverTrigger[] | ((error: unknown) => boolean);
+  /** How long a failed provider is skipped, in ms (default: 60000) */
+  cooldownMs?: number;
+  /** Called whenever a request moves to the next provider */
+  onFailover?: (event: FailoverEvent) => void;
+}
+
+export interface FailoverEvent {
+  /** Provider that failed (index in the chain) */
+  from: number;
+  /** Provider tried next (index in the chain) */
+  to: number;
+  /** Error that triggered the switch */
+  error: unknown;
+}
+
+export interface ProviderHealth {
+  /** Index in the chain */
+  index: number;
+  /** Provider type */
+  type: ProviderType;
+  /** Provider model */
+  model: string;
+  /** Whether the provider is currently in rotation */
+  healthy: boolean;
+  /** Timestamp (ms) until which the provider is skipped */
+  unhealthyUntil?: number;
+  /** Consecutive failures since the last success */
+  consecutiveFailures: number;
+  /** Last error that triggered failover */
+  lastError?: unknown;
+}
+
+// =============================================================================
+// RETRY
+// =============================================================================
+
+export interface RetryPolicy {
+  /** Attempts per provider call, including the first (default: 5; 1 disables retries) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on each retry (default: 1000 ms) */
+  baseDelayMs?: number;
+  /** Upper bound for backoff delays (default: 10000 ms) */
+  maxDelayMs?: number;
+  /** Random spread applied to backoff delays, 0-1 (default: 0.2 = ±20%) */
+  jitter?: number;
+  /** Wait the provider's Retry-After on rate limits instead of backing off (default: true) */
+  respectRetryAfter?: boolean;
+  /** Whether an error is worth retrying (default: anything isFatalError rejects) */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  /** Called before waiting for each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export interface RetryEvent {
+  /** Attempt that failed (1-based) */
+  attempt: number;
+  /** Attempts allowed */
+  maxAttempts: number;
+  /** Wait before the next attempt (ms) */
+  delayMs: number;
+  /** Error that caused the retry */
+  error: unknown;
+  /** Pipeline step of the call */
+  kind: CompletionKind;
+  /** Provider the call went to */
+  provider: ProviderType;
+}
+
+// =============================================================================
+// RATE LIMITING
+// =============================================================================
+
+export interface RateLimiterOptions {
+  /** Requests started per rolling minute */
+  requestsPerMinute?: number;
+  /** Tokens (prompt + max output) reserved per rolling minute */
+  tokensPerMinute?: number;
+}
+
+/**
+ * Client-side limiter every provider call waits on.
+ * Create one with createRateLimiter() to share it between ContentRewriter instances.
+ */
+export interface RateLimiter {
+  /**
+   * Wait until a request of `tokens` fits the limits and reserve it.
+   * Waiters are served in order. Resolves with the time waited (ms);
+   * resolves early without reserving when the signal aborts.
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<number>;
+}
+
+// =============================================================================
+// CACHING
+// =============================================================================
+
+/**
+ * Key-value store for cached completions. Values are JSON strings.
+ * Implement it to keep the cache in Redis, a database, etc.
+ */
+export interface CacheStore {
+  /** Stored value, or undefined if missing or expired */
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove every entry */
+  clear?(): Promise<void>;
+}
+
+// =============================================================================
+// STRUCTURE CHECK
+// =============================================================================
+
+export type StructureCheck = "headings" | "lists" | "tables" | "well_formed";
+
+export interface HtmlStructure {
+  /** Heading tags in document order, e.g. ["h1", "h2", "h3"] */
+  headings: string[];
+  /** <ul> and <ol> elements */
+  lists: number;
+  /** <li> elements */
+  listItems: number;
+  /** <table> elements */
+  tables: number;
+  /** Unclosed, stray or cut-off tags */
+  errors: string[];
+}
+
+export interface StructureIssue {
+  check: StructureCheck;
+  message: string;
+}
+
+export interface StructureReport {
+  /** No issues for the checked aspects */
+  passed: boolean;
+  issues: StructureIssue[];
+  source: HtmlStructure;
+  output: HtmlStructure;
+}
+
+/**
+ * Regenerate HTML content whose structure does not match the input:
+ * a chunk of a large article, or the content of a single-call rewrite.
+ */
+export interface StructurePolicy {
+  /** Regenerations per chunk or content request (default: 1) */
+  maxRegenerations?: number;
+  /** Checks that count as failures (default: all) */
+  checks?: StructureCheck[];
+}
+
+// =============================================================================
+// LINK PROTECTION
+// =============================================================================
+
+/**
+ * Links (anchor hrefs, Markdown targets, bare URLs) of rewritten content
+ * compared with the input.
+ */
+export interface LinkReport {
+  /** Nothing lost, duplicated, added or modified */
+  passed: boolean;
+  /** Links in the input */
+  total: number;
+  /** Input links missing from the output */
+  lost: string[];
+  /** Input links that appear more often in the output */
+  duplicated: string[];
+  /** Output links that are not in the input */
+  added: string[];
+  /** Anchors whose attributes (rel, target, ...) changed */
+  modified: string[];
+}
+
+/** A link replaced with a placeholder (see protectLinks) */
+export interface ProtectedLink {
+  kind: "anchor" | "markdown" | "url";
+  /** Original opening tag, Markdown target or URL */
+  value: string;
+}
+
+/**
+ * Links and protected terms one rewrite sent as placeholders: enough to
+ * restore the originals. Plain JSON, so batch jobs can keep it.
+ */
+export interface RewritePlaceholders {
+  /** Original links, placeholder N at index N - 1 (only with protectLinks) */
+  links?: ProtectedLink[];
+  /** Protected terms, placeholder N at index N - 1 */
+  terms: string[];
+  /** Protected terms each field of the input contains, expected in its rewrite */
+  expectedTerms: { content: string[]; title: string[]; description: string[] };
+}
+
+// =============================================================================
+// PROTECTED TERMS
+// =============================================================================
+
+/** Protected terms of the input checked against rewritten content */
+export interface TermReport {
+  /** Every expected term is present (in the title and description too, when reported) */
+  passed: boolean;
+  /** Protected terms found in the input */
+  expected: string[];
+  /** Expected terms the output does not contain */
+  missing: string[];
+  /** The same check for the title, when the input title contains protected terms */
+  title?: TermReport;
+  /** The same check for the description, when the input description contains protected terms */
+  description?: TermReport;
+}
+
+// =============================================================================
+// FACT CHECK
+// =============================================================================
+
+/**
+ * Kinds of facts extracted from content. "entity" (brand and proper names)
+ * is heuristic and only checked when requested.
+ */
+export type FactKind = "money" | "percentage" | "date" | "odds" | "number" | "entity";
+
+export interface Fact {
+  kind: FactKind;
+  /** Normalized value used for comparison, e.g. "$1000" for "$1,000" */
+  value: string;
+  /** The fact as written */
+  text: string;
+}
+
+export interface FactChange {
+  source: Fact;
+  /** Value of the same kind the output has in its place */
+  output: Fact;
+}
+
+export interface FactReport {
+  /** No fact missing or changed */
+  passed: boolean;
+  /** Distinct facts checked in the input */
+  checked: number;
+  /** Input facts with no counterpart in the output */
+  missing: Fact[];
+  /** Input facts the output replaced with a different value */
+  changed: FactChange[];
+}
+
+/**
+ * Regenerate content that loses or changes facts of the input:
+ * a chunk of a large article, or the content of a single-call rewrite.
+ */
+export interface FactPolicy {
+  /** Regenerations per chunk or content request (default: 1) */
+  maxRegenerations?: number;
+  /** Fact kinds that count as failures (default: all except "entity") */
+  kinds?: FactKind[];
+}
+
+// =============================================================================
+// FRONT MATTER
+// =============================================================================
+
+/** YAML front matter of a static-site Markdown file */
+export interface FrontMatter {
+  /** The block as written: `---` lines, YAML and the blank lines after it */
+  block: string;
+  /** Top-level scalar fields as text; lists and maps are left out */
+  fields: Record<string, string>;
+}
+
+/**
+ * Front matter fields the rewrite reads and writes. A field is the source
+ * of the title or description and receives the rewritten value; every
+ * other line of the front matter is kept as it is.
+ */
+export interface FrontMatterOptions {
+  /** Field holding the title (default: "title"); false leaves it unchanged */
+  title?: string | false;
+  /** Field holding the description (default: "description"); false leaves it unchanged */
+  description?: string | false;
 }
 
 // =============================================================================
@@ -66,14 +561,58 @@ export interface ProviderConfig {
  * Provider config is required here, not in each rewrite call.
  */
 export interface RewriterOptions {
-  /** Provider type: "openai", "anthropic", or "custom" */
-  provider: ProviderType;
-  /** API key for the provider */
-  apiKey: string;
+  /** Provider type: "openai", "anthropic", or "custom" (omit when using `providers`) */
+  provider?: ProviderType;
+  /** API key for the provider (not used with "custom") */
+  apiKey?: string;
+  /** Provider implementation, required when provider is "custom" */
+  customProvider?: RewriteProvider;
   /** Model to use (default: "gpt-4.1") */
   model?: string;
   /** Base URL for custom providers or proxies */
   baseUrl?: string;
+  /**
+   * Ordered provider chain with failover. Takes precedence over
+   * provider/apiKey/model/baseUrl when set.
+   */
+  providers?: ProviderConfig[];
+  /** Failover rules for the provider chain */
+  failover?: FailoverOptions;
+  /** Retry policy for every provider call */
+  retry?: RetryPolicy;
+  /** RPM/TPM limits for this instance, or a limiter shared with other instances */
+  rateLimit?: RateLimiterOptions | RateLimiter;
+  /** Total spend limit across all calls of this instance (USD) */
+  maxCost?: number;
+  /**
+   * Cache for completions (content, chunks, titles, descriptions), keyed by
+   * request messages, model, sampling settings and variant index
+   */
+  cache?: CacheStore;
+  /**
+   * Store for chunk checkpoints of large (chunked) rewrites. Calls with a
+   * `jobId` save every finished chunk, title and description here.
+   */
+  checkpoints?: CacheStore;
+  /** Regenerate HTML that loses headings, lists or tables, or comes back malformed */
+  structurePolicy?: StructurePolicy;
+  /**
+   * Replace links with placeholders before content reaches the provider and
+   * restore them afterwards, so hrefs and attributes cannot change (default: false)
+   */
+  protectLinks?: boolean;
+  /**
+   * Brand names and keywords kept exactly as written: the provider sees
+   * placeholders and masking skips them (case-sensitive, whole phrases)
+   */
+  protectedTerms?: string[];
+  /** Regenerate content that loses or changes prices, percentages, dates or odds */
+  factPolicy?: FactPolicy;
+  /**
+   * YAML front matter handling (default: enabled with the "title" and
+   * "description" fields); false sends front matter to the provider as content
+   */
+  frontMatter?: FrontMatterOptions | false;
   /** Default temperature for generation (0-2, default: 0.9) */
   temperature?: number;
   /** Custom prompt templates to add */
@@ -103,6 +642,50 @@ export interface RewriteCallOptions {
   signal?: AbortSignal;
   /** Apply AI pattern masking to results (default: true) */
   maskAIPatterns?: boolean;
+  /** Receive partial content, titles and descriptions as they are generated */
+  onStream?: StreamingCallback;
+  /**
+   * Get title, description and content from one JSON completion instead of
+   * three requests (default: false). Content that needs chunking is unaffected.
+   */
+  structuredOutput?: boolean;
+  /**
+   * Spend limit for this call (USD). Requests that would go over it are not
+   * sent; the call fails with BudgetExceededError.
+   */
+  maxCost?: number;
+  /**
+   * Use the instance cache for this call (default: true). With false every
+   * request goes to the provider and nothing is stored.
+   */
+  cache?: boolean;
+  /**
+   * Return one VariantOutcome per variant instead of failing the call when a
+   * variant fails (default: false). Fatal errors (bad key, unknown model,
+   * spent budget) still cancel the variants that have not finished.
+   */
+  settled?: boolean;
+  /**
+   * Checkpoint id for a chunked rewrite (requires the `checkpoints` store).
+   * Rerunning a failed call with the same id only requests the chunks,
+   * title and description that did not finish.
+   */
+  jobId?: string;
+  /**
+   * After a chunked rewrite, remove content repeated across chunk boundaries
+   * and revise the start of each chunk to follow on from the previous one
+   * with consistent terminology (default: false). Costs one small request
+   * per boundary.
+   */
+  stitch?: boolean;
+  /** Structure regeneration policy for this call (false disables the instance policy) */
+  structurePolicy?: StructurePolicy | false;
+  /** Link placeholders for this call (overrides the constructor option) */
+  protectLinks?: boolean;
+  /** Protected terms for this call, added to the constructor's protectedTerms */
+  protectedTerms?: string[];
+  /** Fact regeneration policy for this call (false disables the instance policy) */
+  factPolicy?: FactPolicy | false;
 }
 
 // =============================================================================
@@ -124,6 +707,8 @@ export interface RewriteProgress {
   message: string;
   /** Accumulated cost so far */
   costSoFar?: number;
+  /** Time provider calls have waited on the rate limiter so far (ms) */
+  queueWaitMs?: number;
 }
 
 export type ProgressCallback = (progress: RewriteProgress) => void;
@@ -132,7 +717,17 @@ export type ProgressCallback = (progress: RewriteProgress) => void;
 // STREAMING SUPPORT
 // =============================================================================
 
+/**
+ * Kind of streaming update:
+ * - "content": content generated so far (grows as tokens arrive)
+ * - "title" / "description": the generated title or description, before masking
+ * - "final": the finished variant, masked and normalized exactly as returned by rewrite()
+ */
+export type StreamingEvent = "content" | "title" | "description" | "final";
+
 export interface StreamingResult {
+  /** Kind of update */
+  event: StreamingEvent;
   /** Partial or complete result */
   result: Partial<RewriteResult>;
   /** Whether this is the final result */
@@ -143,6 +738,107 @@ export interface StreamingResult {
 
 export type StreamingCallback = (result: StreamingResult) => void;
 
+// =============================================================================
+// BATCH PROCESSING
+// =============================================================================
+
+/** Batch input: content plus an optional id to match results with */
+export type BatchInput = string | (ContentInput & { id?: string });
+
+export interface BatchRewriteOptions
+  extends Pick<
+    RewriteCallOptions,
+    | "prompt"
+    | "promptTemplate"
+    | "variants"
+    | "temperature"
+    | "maskAIPatterns"
+    | "protectLinks"
+    | "protectedTerms"
+  > {
+  /** Metadata attached to the provider batch (e.g. a run name) */
+  metadata?: Record<string, string>;
+}
+
+export interface BatchJobItem {
+  /** Input id (defaults to the input position) */
+  id: string;
+  format: ContentFormat;
+  variants: number;
+  /** Content requests per variant (more than 1 for chunked articles) */
+  chunks: number;
+  /** Whether a title was requested */
+  title: boolean;
+  /** Whether a description was requested */
+  description: boolean;
+  /** Front matter of the input, written back into every result */
+  frontMatter?: FrontMatter;
+  /** Placeholders the input was sent with, restored in every result */
+  placeholders?: RewritePlaceholders;
+}
+
+/**
+ * A submitted batch. Plain JSON: persist it to collect results later,
+ * even from another process.
+ */
+export interface BatchJob {
+  /** Provider batch id */
+  id: string;
+  /** Uploaded request file id */
+  inputFileId: string;
+  model: string;
+  items: BatchJobItem[];
+  /** Apply AI pattern masking when collecting results */
+  maskAIPatterns: boolean;
+  /** Submission time (ms since epoch) */
+  createdAt: number;
+}
+
+export type BatchState =
+  | "validating"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "failed"
+  | "expired"
+  | "cancelling"
+  | "cancelled";
+
+export interface BatchStatus {
+  id: string;
+  state: BatchState;
+  /** Requests completed so far */
+  completed: number;
+  /** Requests failed so far */
+  failed: number;
+  /** Total requests */
+  total: number;
+  outputFileId?: string;
+  errorFileId?: string;
+  /** Why the batch failed validation */
+  errors?: string[];
+}
+
+export interface BatchWaitOptions {
+  /** Delay between status checks (default: 30000 ms) */
+  pollIntervalMs?: number;
+  /** Give up after this long (default: no limit) */
+  timeoutMs?: number;
+  /** Abort signal to stop waiting (the batch keeps running) */
+  signal?: AbortSignal;
+  /** Called after every status check */
+  onPoll?: (status: BatchStatus) => void;
+}
+
+export interface BatchItemResult {
+  /** Input id */
+  id: string;
+  /** Variants that completed, in variant order */
+  results: RewriteResult[];
+  /** Why other variants failed */
+  errors: string[];
+}
+
 // =============================================================================
 // ERRORS
 // =============================================================================
@@ -182,3 +878,26 @@ export class RateLimitError extends ProviderError {
     this.name = "RateLimitError";
   }
 }
+
+/**
+ * A rewrite hit its cost budget. Remaining requests were cancelled;
+ * variants that finished before that are in `partialResults`.
+ */
+export class BudgetExceededError extends RewriterError {
+  constructor(
+    /** Budget that applied (USD) */
+    public readonly maxCost: number,
+    /** Spent against that budget, including requests whose results were discarded (USD) */
+    public readonly spent: number,
+    /** Variants completed before the budget ran out */
+    public readonly partialResults: RewriteResult[] = [],
+    details?: unknown
+  ) {
+    super(
+      `Cost budget of $${maxCost.toFixed(4)} exceeded ($${spent.toFixed(4)} spent)`,
+      "BUDGET_EXCEEDED",
+      details
+    );
+    this.name = "BudgetExceededError";
+  }
+}
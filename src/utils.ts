@@ -4,8 +4,10 @@
  * Helper functions for content processing.
  */
 
-import type { ContentFormat } from "./types.js";
+import type { ContentFormat, UsageRecord } from "./types.js";
+import { ValidationError } from "./types.js";
 import { LIMITS } from "./constants.js";
+import { countTokens } from "./tokenizer.js";
 
 // =============================================================================
 // FORMAT DETECTION
@@ -198,12 +200,73 @@ export function clampString(
 }
 
 /**
- * Estimate token count from text (rough approximation).
- * ~4 chars per token for English, ~2-3 for other languages.
- * Uses 3.5 as conservative average.
+ * Keep the leading blocks that fit in `max` characters, or cut `content`
+ * plainly when the first block alone is too long.
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 3.5);
+function clampBlocks(content: string, blocks: string[], separator: string, max: number): string {
+  let length = 0;
+  let count = 0;
+  while (
+    count < blocks.length &&
+    length + blocks[count].length + (count ? separator.length : 0) <= max
+  ) {
+    length += blocks[count].length + (count ? separator.length : 0);
+    count++;
+  }
+  return count > 0 ? blocks.slice(0, count).join(separator) : clampString(content, 0, max);
+}
+
+/**
+ * Clamp content to `max` characters without cutting into an element:
+ * HTML keeps its whole top-level elements that fit. Falls back to a plain
+ * cut when the first element alone is too long.
+ */
+export function clampHtml(html: string, max: number): string {
+  if (html.length <= max || detectFormat(html) !== "html") {
+    return clampString(html, 0, max);
+  }
+  return clampBlocks(html, splitHtmlBlocks(html), "\n", max);
+}
+
+/**
+ * Clamp Markdown to `max` characters between blocks, so code fences,
+ * lists and tables are never cut open.
+ */
+export function clampMarkdown(markdown: string, max: number): string {
+  if (markdown.length <= max) {
+    return markdown;
+  }
+  return clampBlocks(markdown, splitMarkdownBlocks(markdown), "\n\n", max);
+}
+
+/**
+ * Count tokens in text with the BPE encoding of the given model
+ * (o200k_base for gpt-4o/gpt-4.1 and newer, cl100k_base otherwise).
+ */
+export function estimateTokens(text: string, model: string = "gpt-4.1"): number {
+  return countTokens(text, model);
+}
+
+/**
+ * Fast non-cryptographic string hash (cyrb53-style, 16 hex chars).
+ * Stable across Node and browsers; used for cassette and cache keys.
+ */
+export function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (
+    (h2 >>> 0).toString(16).padStart(8, "0") +
+    (h1 >>> 0).toString(16).padStart(8, "0")
+  );
 }
 
 // =============================================================================
@@ -284,6 +347,469 @@ export function splitIntoChunks(
   return chunks;
 }
 
+/**
+ * Split content into the fewest evenly sized chunks whose rewritable part
+ * stays within a token limit. Content within the limit is returned as a single chunk.
+ *
+ * Chunks after the first start with `overlap` characters of context from the
+ * previous chunk; the context does not count toward `maxChunkTokens`.
+ */
+export function splitIntoTokenChunks(
+  content: string,
+  maxChunkTokens: number,
+  model: string = "gpt-4.1",
+  overlap: number = LIMITS.CHUNK_OVERLAP
+): ContentChunk[] {
+  const totalTokens = estimateTokens(content, model);
+  if (totalTokens <= maxChunkTokens) {
+    return [{ content, index: 0, isFirst: true, isLast: true }];
+  }
+
+  let chunkCount = Math.ceil(totalTokens / maxChunkTokens);
+
+  // Token density varies across the text (markup, code, other scripts),
+  // so verify every chunk and add chunks until the largest one fits
+  while (true) {
+    const chunkSize = Math.ceil((content.length + (chunkCount - 1) * overlap) / chunkCount);
+    if (chunkSize <= overlap * 2) {
+      throw new ValidationError(
+        `Chunk budget of ${maxChunkTokens} tokens is too small to split content`,
+        { maxChunkTokens }
+      );
+    }
+
+    const chunks = splitIntoChunks(content, chunkSize, overlap);
+    const largest = Math.max(
+      ...chunks.map((chunk) =>
+        estimateTokens(chunk.isFirst ? chunk.content : chunk.content.slice(overlap), model)
+      )
+    );
+    if (largest <= maxChunkTokens) {
+      return chunks;
+    }
+    chunkCount = Math.max(chunkCount + 1, Math.ceil((chunkCount * largest) / maxChunkTokens));
+  }
+}
+
+/** Elements without a closing tag */
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr",
+]);
+
+/** Elements whose content is not parsed as markup */
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "textarea"]);
+
+/** Block elements that implicitly close an open <p> */
+const CLOSES_PARAGRAPH = /^(address|article|aside|blockquote|details|div|dl|fieldset|figure|footer|form|h[1-6]|header|hr|main|nav|ol|p|pre|section|table|ul)$/;
+
+/**
+ * Split HTML into its top-level nodes: whole elements (with everything
+ * nested in them) and runs of text between them. Unclosed tags end at the
+ * end of the input.
+ */
+export function splitHtmlBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const stack: string[] = [];
+  const tagPattern = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][\w:-]*)\b[^>]*?(\/?)>/g;
+  let blockStart = 0;
+
+  const pushBlock = (end: number) => {
+    const block = html.slice(blockStart, end).trim();
+    if (block) {
+      blocks.push(block);
+    }
+    blockStart = end;
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html))) {
+    const [tag, closing, rawName, selfClosing] = match;
+    if (!rawName) {
+      // Comment: a block of its own at the top level
+      if (stack.length === 0) {
+        pushBlock(match.index);
+        pushBlock(match.index + tag.length);
+      }
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    const end = match.index + tag.length;
+
+    if (closing) {
+      const open = stack.lastIndexOf(name);
+      if (open === -1) {
+        continue;
+      }
+      stack.length = open;
+      if (stack.length === 0) {
+        pushBlock(end);
+      }
+      continue;
+    }
+
+    if (stack.length === 1 && stack[0] === "p" && CLOSES_PARAGRAPH.test(name)) {
+      stack.length = 0;
+      pushBlock(match.index);
+    }
+    if (stack.length === 0) {
+      // Text before the element is a block of its own
+      pushBlock(match.index);
+    }
+
+    if (VOID_ELEMENTS.has(name) || selfClosing) {
+      if (stack.length === 0) {
+        pushBlock(end);
+      }
+      continue;
+    }
+
+    if (RAW_TEXT_ELEMENTS.has(name)) {
+      const close = html.toLowerCase().indexOf(`</${name}`, end);
+      const closeEnd = close === -1 ? html.length : html.indexOf(">", close) + 1 || html.length;
+      tagPattern.lastIndex = closeEnd;
+      if (stack.length === 0) {
+        pushBlock(closeEnd);
+      }
+      continue;
+    }
+
+    stack.push(name);
+  }
+
+  blockStart = Math.min(blockStart, html.length);
+  pushBlock(html.length);
+  return blocks;
+}
+
+const MARKDOWN_LIST_ITEM = /^\s*(?:[-*+]|\d{1,9}[.)])(?:\s|$)/;
+const MARKDOWN_FENCE = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Split Markdown into its blocks: headings, paragraphs, whole lists (with
+ * nested items and continuation lines), blockquotes, tables, thematic
+ * breaks and fenced code blocks, which are never split.
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const lines = markdown.split("\n");
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let kind: "paragraph" | "list" | "quote" | "table" | null = null;
+
+  const flush = () => {
+    // Keep the first line's indentation (indented code)
+    const block = current.join("\n").replace(/^\s*\n/, "").trimEnd();
+    if (block.trim()) {
+      blocks.push(block);
+    }
+    current = [];
+    kind = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code runs to the closing fence (or the end); fences indented in a list stay in it
+    const fence = line.match(MARKDOWN_FENCE);
+    if (fence && !(kind === "list" && /^\s/.test(line))) {
+      flush();
+      const close = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const block = [line];
+      while (++i < lines.length) {
+        block.push(lines[i]);
+        if (close.test(lines[i])) {
+          break;
+        }
+      }
+      blocks.push(block.join("\n"));
+      continue;
+    }
+
+    if (!line.trim()) {
+      // A list goes on when the next line is indented or another item
+      const next = lines.slice(i + 1).find((candidate) => candidate.trim());
+      if (kind === "list" && next !== undefined && (/^\s/.test(next) || MARKDOWN_LIST_ITEM.test(next))) {
+        current.push(line);
+      } else {
+        flush();
+      }
+      continue;
+    }
+
+    // Setext heading underline belongs to the paragraph line above it
+    if (kind === "paragraph" && /^ {0,3}(=+|-+)\s*$/.test(line)) {
+      current.push(line);
+      flush();
+      continue;
+    }
+    if (/^ {0,3}#{1,6}(\s|$)/.test(line) || /^ {0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      blocks.push(line.trim());
+      continue;
+    }
+
+    const lineKind = MARKDOWN_LIST_ITEM.test(line)
+      ? "list"
+      : /^ {0,3}>/.test(line)
+        ? "quote"
+        : /^\s*\|/.test(line)
+          ? "table"
+          : "paragraph";
+    // Anything but a blank line continues a list (continuation and nested lines)
+    if (kind === "list") {
+      current.push(line);
+      continue;
+    }
+    if (kind !== lineKind) {
+      flush();
+    }
+    kind = lineKind;
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Top-level blocks of content: elements for HTML, Markdown blocks for
+ * Markdown, paragraphs (blank-line separated) otherwise.
+ */
+export function splitContentBlocks(content: string): string[] {
+  switch (detectFormat(content)) {
+    case "html":
+      return splitHtmlBlocks(content);
+    case "markdown":
+      return splitMarkdownBlocks(content);
+    default:
+      return content.split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean);
+  }
+}
+
+/** Sentences shorter than this (normalized) are never treated as repeats */
+const MIN_REPEAT_LENGTH = 20;
+
+function normalizeSentence(text: string): string {
+  return stripHtmlTags(text).toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?]*[.!?]+["')\]]*\s*|[^.!?]+$/g) || [];
+}
+
+/**
+ * Remove blocks and leading sentences at the start of `next` that repeat
+ * the end of `previous` (chunk overlap the model rewrote twice).
+ * Only plain paragraphs are trimmed sentence by sentence.
+ *
+ * @returns The cleaned `next` and the number of blocks and sentences removed
+ */
+export function removeBoundaryRepeats(
+  previous: string,
+  next: string
+): { content: string; removed: number } {
+  const tail = splitContentBlocks(previous).slice(-3);
+  const tailBlocks = new Set(tail.map(normalizeSentence));
+  const tailSentences = new Set(
+    tail
+      .flatMap((block) => splitSentences(stripHtmlTags(block)))
+      .map(normalizeSentence)
+      .filter((sentence) => sentence.length >= MIN_REPEAT_LENGTH)
+  );
+  const isRepeat = (sentence: string) => {
+    const normalized = normalizeSentence(sentence);
+    return normalized.length >= MIN_REPEAT_LENGTH && tailSentences.has(normalized);
+  };
+
+  const blocks = splitContentBlocks(next);
+  let removed = 0;
+  while (blocks.length > 1) {
+    const block = blocks[0];
+    const normalized = normalizeSentence(block);
+    const sentences = splitSentences(stripHtmlTags(block)).filter((sentence) => sentence.trim());
+    if (
+      (normalized.length >= MIN_REPEAT_LENGTH && tailBlocks.has(normalized)) ||
+      (sentences.length > 0 && sentences.every(isRepeat))
+    ) {
+      blocks.shift();
+      removed++;
+      continue;
+    }
+
+    // Trim repeated leading sentences of a plain paragraph
+    const paragraph = block.match(/^(<p\b[^>]*>)?([^<]*)(<\/p>)?$/i);
+    if (paragraph && Boolean(paragraph[1]) === Boolean(paragraph[3])) {
+      const inner = splitSentences(paragraph[2]);
+      let skip = 0;
+      while (skip < inner.length - 1 && isRepeat(inner[skip])) {
+        skip++;
+      }
+      if (skip > 0) {
+        blocks[0] = `${paragraph[1] || ""}${inner.slice(skip).join("").trim()}${paragraph[3] || ""}`;
+        removed += skip;
+      }
+    }
+    break;
+  }
+
+  if (removed === 0) {
+    return { content: next, removed };
+  }
+  return { content: blocks.join(detectFormat(next) === "html" ? "\n" : "\n\n"), removed };
+}
+
+/** A chunk of whole blocks (HTML elements or Markdown blocks) */
+export interface BlockChunk extends ContentChunk {
+  /** Headings leading up to the chunk, for context (empty for the first chunk) */
+  context: string;
+}
+
+/**
+ * Group blocks into evenly sized chunks within `maxChunkTokens`, preferring
+ * to start a chunk at a heading. Each chunk carries the headings above it
+ * as context, up to `maxContextLength` characters. A single block larger
+ * than the budget is split by characters as a last resort.
+ *
+ * @param headingLevel - Heading level of a block (1-6), or null for other blocks
+ */
+function chunkBlocks(
+  content: string,
+  blocks: string[],
+  headingLevel: (block: string) => number | null,
+  separator: string,
+  maxChunkTokens: number,
+  model: string,
+  maxContextLength: number
+): BlockChunk[] {
+  const sizes = blocks.map((block) => estimateTokens(block, model) + 1);
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  if (total <= maxChunkTokens) {
+    return [{ content, context: "", index: 0, isFirst: true, isLast: true }];
+  }
+
+  const target = total / Math.ceil(total / maxChunkTokens);
+  // Latest heading per level (h1 at 0)
+  const trail: string[] = [];
+  const parts: Array<{ content: string; context: string }> = [];
+  let current: string[] = [];
+  let currentSize = 0;
+  let context = "";
+
+  /** Headings above `level`, outermost dropped first when too long */
+  const headingContext = (level: number) => {
+    const headings = trail.slice(0, level - 1).filter(Boolean);
+    while (headings.length > 1 && headings.join("\n").length > maxContextLength) {
+      headings.shift();
+    }
+    return headings.join("\n").slice(0, maxContextLength);
+  };
+
+  const flush = () => {
+    if (current.length) {
+      parts.push({ content: current.join(separator), context });
+    }
+    current = [];
+    currentSize = 0;
+  };
+
+  blocks.forEach((block, i) => {
+    const size = sizes[i];
+    const heading = headingLevel(block);
+    const level = heading ?? 7;
+
+    if (size > maxChunkTokens) {
+      flush();
+      for (const piece of splitIntoTokenChunks(block, maxChunkTokens, model, 0)) {
+        parts.push({ content: piece.content, context: parts.length ? headingContext(level) : "" });
+      }
+    } else {
+      // Keep heading sections together: start a new chunk at a heading once this one is well filled
+      const full = currentSize + size > maxChunkTokens || currentSize >= target;
+      const sectionBreak = heading !== null && currentSize >= target * 0.6;
+      if (current.length && (full || sectionBreak)) {
+        flush();
+      }
+      if (current.length === 0) {
+        context = parts.length ? headingContext(level) : "";
+      }
+      current.push(block);
+      currentSize += size;
+    }
+
+    if (heading !== null) {
+      trail.length = level;
+      trail[level - 1] = block;
+    }
+  });
+  flush();
+
+  return parts.map((part, index) => ({
+    ...part,
+    index,
+    isFirst: index === 0,
+    isLast: index === parts.length - 1,
+  }));
+}
+
+/**
+ * Split HTML into chunks of whole top-level elements, so lists, tables and
+ * blockquotes are never cut apart. Chunks are evenly sized within
+ * `maxChunkTokens` and prefer to start at a heading. Each chunk carries the
+ * headings above it as context, up to `maxContextLength` characters.
+ *
+ * A single element larger than the budget is split by characters as a last resort.
+ */
+export function splitIntoHtmlChunks(
+  html: string,
+  maxChunkTokens: number,
+  model: string = "gpt-4.1",
+  maxContextLength: number = LIMITS.CHUNK_OVERLAP
+): BlockChunk[] {
+  const headingLevel = (block: string) => {
+    const heading = block.match(/^<h([1-6])\b/i);
+    return heading ? Number(heading[1]) : null;
+  };
+  return chunkBlocks(
+    html,
+    splitHtmlBlocks(html),
+    headingLevel,
+    "\n",
+    maxChunkTokens,
+    model,
+    maxContextLength
+  );
+}
+
+/**
+ * Split Markdown into chunks of whole blocks (see splitMarkdownBlocks), so
+ * code fences, lists and tables are never cut apart. Sizing and heading
+ * context work as in splitIntoHtmlChunks.
+ */
+export function splitIntoMarkdownChunks(
+  markdown: string,
+  maxChunkTokens: number,
+  model: string = "gpt-4.1",
+  maxContextLength: number = LIMITS.CHUNK_OVERLAP
+): BlockChunk[] {
+  const headingLevel = (block: string) => {
+    const atx = block.match(/^(#{1,6})(\s|$)/);
+    if (atx) {
+      return atx[1].length;
+    }
+    const setext = block.match(/\n {0,3}(=+|-+)\s*$/);
+    return setext ? (setext[1][0] === "=" ? 1 : 2) : null;
+  };
+  return chunkBlocks(
+    markdown,
+    splitMarkdownBlocks(markdown),
+    headingLevel,
+    "\n\n",
+    maxChunkTokens,
+    model,
+    maxContextLength
+  );
+}
+
 // =============================================================================
 // RESPONSE PARSING
 // =============================================================================
@@ -488,6 +1014,47 @@ export function checkUniqueness(original: string, rewritten: string): Uniqueness
   };
 }
 
+// =============================================================================
+// USAGE EXPORT
+// =============================================================================
+
+const USAGE_CSV_COLUMNS = [
+  "timestamp",
+  "call",
+  "variant",
+  "kind",
+  "chunk",
+  "provider",
+  "model",
+  "inputTokens",
+  "cachedInputTokens",
+  "outputTokens",
+  "cost",
+  "latencyMs",
+  "attempts",
+] as const;
+
+function csvField(value: unknown): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize usage records as JSON or CSV (one row per request,
+ * ISO timestamps in CSV).
+ */
+export function formatUsageRecords(records: UsageRecord[], format: "json" | "csv"): string {
+  if (format === "json") {
+    return JSON.stringify(records, null, 2);
+  }
+  const rows = records.map((record) =>
+    USAGE_CSV_COLUMNS.map((column) =>
+      csvField(column === "timestamp" ? new Date(record.timestamp).toISOString() : record[column])
+    ).join(",")
+  );
+  return [USAGE_CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
 // =============================================================================
 // ASYNC UTILITIES
 // =============================================================================
@@ -495,8 +1062,24 @@ export function checkUniqueness(original: string, rewritten: string): Uniqueness
 /**
  * Sleep for specified milliseconds.
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+  // Ends early when the signal aborts; callers check signal.aborted afterwards
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal!.removeEventListener("abort", done);
+      resolve();
+    }
+    if (signal.aborted) {
+      done();
+    } else {
+      signal.addEventListener("abort", done, { once: true });
+    }
+  });
 }
 
 /**
@@ -0,0 +1,173 @@
+/**
+ * Anthropic provider against a local stand-in for the Messages API.
+ * Run with `npm test` (builds lib/ first).
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { ContentRewriter, createAnthropicProvider, RateLimitError } from "../lib/index.js";
+
+const INPUT = {
+  content: "<p>Casino bonuses explained for new players.</p>",
+  title: "Original title",
+  description: "Original description",
+};
+
+/** Answer for a request, chosen by its system prompt */
+function answerFor(body) {
+  if (body.system.includes("page title")) {
+    return "Stand-in title";
+  }
+  if (body.system.includes("meta description")) {
+    return "Stand-in description";
+  }
+  return "<p>Stand-in content.</p>";
+}
+
+function sse(res, events) {
+  res.writeHead(200, { "content-type": "text/event-stream" });
+  for (const data of events) {
+    res.write(`event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+  res.end();
+}
+
+function streamAnswer(res, body, text) {
+  const words = text.split(/(?<= )/);
+  sse(res, [
+    {
+      type: "message_start",
+      message: {
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: body.model,
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: 100, output_tokens: 1 },
+      },
+    },
+    { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+    ...words.map((word) => ({
+      type: "content_block_delta",
+      index: 0,
+      delta: { type: "text_delta", text: word },
+    })),
+    { type: "content_block_stop", index: 0 },
+    { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 20 } },
+    { type: "message_stop" },
+  ]);
+}
+
+let server;
+let baseUrl;
+/** Requests the stand-in received */
+const requests = [];
+/** Set to make the next request fail with a 429 */
+let rateLimited = false;
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    let raw = "";
+    for await (const part of req) {
+      raw += part;
+    }
+    const body = JSON.parse(raw);
+    requests.push({ path: req.url, headers: req.headers, body });
+
+    if (rateLimited) {
+      rateLimited = false;
+      res.writeHead(429, { "content-type": "application/json", "retry-after": "7" });
+      res.end(JSON.stringify({ type: "error", error: { type: "rate_limit_error", message: "Slow down" } }));
+      return;
+    }
+
+    const text = answerFor(body);
+    if (body.stream) {
+      streamAnswer(res, body, text);
+      return;
+    }
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(
+      JSON.stringify({
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: body.model,
+        content: [{ type: "text", text }],
+        stop_reason: "end_turn",
+        usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 40 },
+      })
+    );
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+test("rewrites content, title and description through the Messages API", async () => {
+  requests.length = 0;
+  const rewriter = new ContentRewriter({ provider: "anthropic", apiKey: "test-key", baseUrl });
+
+  const result = await rewriter.rewriteOne(INPUT);
+
+  assert.equal(result.content, "<p>Stand-in content.</p>");
+  assert.equal(result.title, "Stand-in title");
+  assert.equal(result.description, "Stand-in description");
+  assert.equal(result.provider, "anthropic");
+  assert.equal(requests.length, 3);
+  for (const { path, headers, body } of requests) {
+    assert.equal(path, "/v1/messages");
+    assert.equal(headers["x-api-key"], "test-key");
+    // System prompt as a parameter, temperature capped at 1
+    assert.ok(body.system);
+    assert.ok(body.messages.every((message) => message.role !== "system"));
+    assert.ok(body.temperature <= 1);
+  }
+  // Cache reads count as input tokens
+  for (const entry of result.usage.entries) {
+    assert.equal(entry.inputTokens, 140);
+    assert.equal(entry.cachedInputTokens, 40);
+  }
+});
+
+test("streams content deltas", async () => {
+  requests.length = 0;
+  const rewriter = new ContentRewriter({ provider: "anthropic", apiKey: "test-key", baseUrl });
+
+  const previews = [];
+  let final;
+  for await (const update of rewriter.rewriteStream(INPUT)) {
+    if (update.isFinal) {
+      final = update.result;
+    } else if (update.event === "content") {
+      previews.push(update.result.content);
+    }
+  }
+
+  assert.ok(requests.some(({ body }) => body.stream === true));
+  assert.ok(previews.length > 1, "content arrives in pieces");
+  assert.equal(previews.at(-1), "<p>Stand-in content.</p>");
+  assert.equal(final.content, "<p>Stand-in content.</p>");
+});
+
+test("maps a 429 with retry-after to RateLimitError", async () => {
+  const provider = createAnthropicProvider({ type: "anthropic", apiKey: "test-key", baseUrl });
+  rateLimited = true;
+
+  await assert.rejects(
+    provider.completeContent({
+      messages: [{ role: "user", content: "Hello" }],
+      temperature: 0.7,
+      maxTokens: 100,
+    }),
+    (error) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.provider, "anthropic");
+      assert.equal(error.retryAfter, 7);
+      return true;
+    }
+  );
+});
@@ -0,0 +1,47 @@
+/**
+ * BudgetExceededError reports the budget that ran out and what was spent
+ * against it. Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { BudgetExceededError, ContentRewriter, createMockProvider } from "../lib/index.js";
+
+const INPUT = {
+  content: "<p>Casino bonuses explained for new players.</p>",
+  title: "Original title",
+  description: "Original description",
+};
+
+test("an instance budget overrun reports the instance's cumulative spend", async () => {
+  const provider = createMockProvider({
+    mode: "scripted",
+    model: "gpt-4.1",
+    responses: {
+      content: { text: "<p>Rewritten</p>", usage: { inputTokens: 1000, outputTokens: 1000 } },
+      title: "New title",
+      description: "New description",
+    },
+  });
+  const probe = await new ContentRewriter({ provider: "custom", customProvider: provider }).rewriteOne(INPUT);
+  const rewriter = new ContentRewriter({
+    provider: "custom",
+    customProvider: provider,
+    maxCost: probe.cost * 2.5,
+  });
+
+  let spent = 0;
+  let error;
+  for (let i = 0; i < 5 && !error; i++) {
+    try {
+      spent += (await rewriter.rewriteOne(INPUT)).cost;
+    } catch (caught) {
+      error = caught;
+    }
+  }
+
+  assert.ok(error instanceof BudgetExceededError);
+  assert.equal(error.details.scope, "instance");
+  assert.equal(error.maxCost, probe.cost * 2.5);
+  assert.ok(error.spent >= spent, `${error.spent} < ${spent}`);
+});
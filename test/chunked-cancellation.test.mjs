@@ -0,0 +1,95 @@
+/**
+ * Cancelling a chunked rewrite must not leave the title and description
+ * requests rejecting with no handler. Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BudgetExceededError,
+  ContentRewriter,
+  createMockProvider,
+  isLargeContent,
+  ProviderError,
+} from "../lib/index.js";
+
+/** An article (~6k tokens) that is split into several chunks under the default token budget */
+const LARGE_HTML = Array.from(
+  { length: 60 },
+  (_, i) => `<h2>Section ${i}</h2><p>Paragraph ${i} ${"word ".repeat(80)}</p>`
+).join("\n");
+
+const INPUT = { content: LARGE_HTML, title: "Original title", description: "Original description" };
+
+/** Slow title and description, so they are still running when the chunks stop */
+function createProvider(content) {
+  return createMockProvider({
+    mode: "scripted",
+    model: "gpt-4.1",
+    responses: {
+      content,
+      title: { text: "New title", delayMs: 100 },
+      description: { text: "New description", delayMs: 100 },
+    },
+  });
+}
+
+/** Collect unhandled rejections until the pending requests have finished */
+async function unhandledRejections(run) {
+  const rejections = [];
+  const onRejection = (reason) => rejections.push(reason);
+  process.on("unhandledRejection", onRejection);
+  try {
+    await run();
+    await new Promise((resolve) => setTimeout(resolve, 300));
+  } finally {
+    process.off("unhandledRejection", onRejection);
+  }
+  return rejections;
+}
+
+test("breaking out of rewriteStream on a chunked article cancels cleanly", async () => {
+  assert.ok(isLargeContent(LARGE_HTML, "gpt-4.1"));
+  const provider = createProvider({ text: "<p>Rewritten chunk</p>", delayMs: 20 });
+  const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider });
+
+  const rejections = await unhandledRejections(async () => {
+    for await (const update of rewriter.rewriteStream(INPUT)) {
+      assert.equal(update.isFinal, false);
+      break;
+    }
+  });
+
+  assert.deepEqual(rejections, []);
+});
+
+test("a budget overrun on a chunked article only surfaces as BudgetExceededError", async () => {
+  const provider = createProvider({ text: "<p>Rewritten chunk</p>", delayMs: 20 });
+  const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider });
+
+  const rejections = await unhandledRejections(() =>
+    assert.rejects(rewriter.rewrite(INPUT, { maxCost: 0.005 }), BudgetExceededError)
+  );
+
+  assert.deepEqual(rejections, []);
+});
+
+test("settled mode leaves no unhandled rejections after a fatal error", async () => {
+  const provider = createProvider((request, callIndex) =>
+    callIndex === 0
+      ? { error: new ProviderError("Invalid API key", "custom", { code: "invalid_api_key" }) }
+      : { text: "<p>Rewritten chunk</p>", delayMs: 20 }
+  );
+  const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider });
+
+  let outcomes;
+  const rejections = await unhandledRejections(async () => {
+    outcomes = await rewriter.rewrite(INPUT, { variants: 2, settled: true });
+  });
+
+  assert.deepEqual(
+    outcomes.map((outcome) => outcome.status),
+    ["rejected", "rejected"]
+  );
+  assert.deepEqual(rejections, []);
+});
@@ -0,0 +1,63 @@
+/**
+ * Fact extraction and comparison. Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compareFacts, extractFacts } from "../lib/index.js";
+
+/** Facts of one kind as "value (text)" */
+function factsOf(content, kind) {
+  return extractFacts(content)
+    .filter((fact) => fact.kind === kind)
+    .map((fact) => `${fact.value} (${fact.text})`);
+}
+
+test("money amounts are normalized across symbols, codes and separators", () => {
+  assert.deepEqual(
+    factsOf("<p>Get $1,000, deposit €20 or 20 EUR, win £10.50 or 1.5k USD.</p>", "money").sort(),
+    ["$1000 ($1,000)", "$1500 (1.5k USD)", "£10.5 (£10.50)", "€20 (20 EUR)", "€20 (€20)"]
+  );
+});
+
+test("percentages, multipliers and plain numbers", () => {
+  const content = "<p>Wagering is 35x, cashback 10% and RTP 96.5 % for 1,234,567 players.</p>";
+  assert.deepEqual(factsOf(content, "percentage"), ["10% (10%)", "96.5% (96.5 %)"]);
+  assert.deepEqual(factsOf(content, "number").sort(), ["1234567 (1,234,567)", "35x (35x)"]);
+});
+
+test("dates in different notations share one normalized value", () => {
+  const content = "<p>Ends on 31 December 2025, started 2025-01-15, renewed March 3, 2024.</p>";
+  assert.deepEqual(factsOf(content, "date").sort(), [
+    "2024-03-03 (March 3, 2024)",
+    "2025-01-15 (2025-01-15)",
+    "2025-12-31 (31 December 2025)",
+  ]);
+});
+
+test("fractional odds", () => {
+  assert.deepEqual(factsOf("<p>Odds of 5/1 on the favourite.</p>", "odds"), ["5/1 (5/1)"]);
+});
+
+test("tags, link targets and URLs are not read as facts", () => {
+  const content =
+    '<p><a href="https://example.com/2024/10">Terms</a> and [rules](https://example.com/page-7).</p>';
+  assert.deepEqual(factsOf(content, "number"), []);
+  assert.deepEqual(factsOf(content, "date"), []);
+});
+
+test("a rewrite passes when facts are reworded, and fails when they change", () => {
+  const source = "<p>Get a $1,000 bonus on 31 December 2025.</p>";
+
+  assert.equal(compareFacts(source, "<p>Claim a $1000 bonus by December 31, 2025.</p>").passed, true);
+
+  const changed = compareFacts(source, "<p>Claim a $500 bonus by December 31, 2025.</p>");
+  assert.equal(changed.passed, false);
+  assert.deepEqual(
+    changed.changed.map(({ source, output }) => [source.text, output.text]),
+    [["$1,000", "$500"]]
+  );
+
+  const missing = compareFacts(source, "<p>Claim a $1000 bonus soon.</p>");
+  assert.deepEqual(missing.missing.map((fact) => fact.value), ["2025-12-31"]);
+});
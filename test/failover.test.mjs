@@ -0,0 +1,90 @@
+/**
+ * Failover chains: chunk sizing and caching by the model that served a
+ * request. Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ContentRewriter,
+  createFailoverProvider,
+  createMemoryCache,
+  createMockProvider,
+  ProviderError,
+  registerModel,
+  unregisterModel,
+} from "../lib/index.js";
+
+const RESPONSES = {
+  content: "<p>Rewritten.</p>",
+  title: "New title",
+  description: "New description",
+};
+
+/** Fails every request with a network error */
+const brokenProvider = {
+  type: "custom",
+  model: "gpt-4.1",
+  async completeContent() {
+    throw new ProviderError("Connection reset", "custom");
+  },
+  async completeTitle() {
+    throw new ProviderError("Connection reset", "custom");
+  },
+  async completeDescription() {
+    throw new ProviderError("Connection reset", "custom");
+  },
+};
+
+test("content is chunked for the smallest model of the chain", async () => {
+  registerModel("small-context", {
+    input: 1,
+    output: 1,
+    contextWindow: 4000,
+    maxOutputTokens: 1000,
+  });
+  try {
+    // ~1.3k tokens: one request for gpt-4.1, too large for small-context
+    const content = Array.from(
+      { length: 12 },
+      (_, i) => `<h2>Section ${i}</h2><p>${"word ".repeat(80)}</p>`
+    ).join("\n");
+    const primary = createMockProvider({ mode: "scripted", model: "gpt-4.1", responses: RESPONSES });
+    const fallback = createMockProvider({ mode: "scripted", model: "small-context", responses: RESPONSES });
+    const rewriter = new ContentRewriter({
+      provider: "custom",
+      customProvider: createFailoverProvider([primary, fallback]),
+    });
+
+    await rewriter.rewriteOne({ content, title: "Title", description: "Description" });
+
+    const contentCalls = primary.calls.filter((call) => call.kind === "content");
+    assert.ok(contentCalls.length > 1, `${contentCalls.length} content request(s)`);
+  } finally {
+    unregisterModel("small-context");
+  }
+});
+
+test("a response served by the fallback is cached for the fallback model", async () => {
+  const cache = createMemoryCache();
+  const input = { content: "<p>Casino bonuses explained.</p>", title: "Title", description: "Description" };
+  const fallback = createMockProvider({ mode: "scripted", model: "gpt-4o", responses: RESPONSES });
+  const chain = new ContentRewriter({
+    provider: "custom",
+    customProvider: createFailoverProvider([brokenProvider, fallback]),
+    cache,
+  });
+
+  const result = await chain.rewriteOne(input);
+  assert.equal(result.model, "gpt-4o");
+
+  // Not served as the primary model's answer...
+  const primary = createMockProvider({ mode: "scripted", model: "gpt-4.1", responses: RESPONSES });
+  await new ContentRewriter({ provider: "custom", customProvider: primary, cache }).rewriteOne(input);
+  assert.equal(primary.calls.length, 3);
+
+  // ...but as the fallback model's
+  const direct = createMockProvider({ mode: "scripted", model: "gpt-4o", responses: RESPONSES });
+  await new ContentRewriter({ provider: "custom", customProvider: direct, cache }).rewriteOne(input);
+  assert.equal(direct.calls.length, 0);
+});
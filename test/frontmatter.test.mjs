@@ -0,0 +1,119 @@
+/**
+ * YAML front matter: parsing, writing back and the rewriter options.
+ * Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ContentRewriter,
+  createMockProvider,
+  extractTitleFromMarkdown,
+  splitFrontMatter,
+  updateFrontMatter,
+} from "../lib/index.js";
+
+const FILE = `---
+title: Front matter title
+---
+
+# Heading title
+
+Body text about casino bonuses.
+`;
+
+test("CRLF front matter is split off and written back with CRLF", () => {
+  const file = '---\r\ntitle: CRLF title\r\ndescription: "Quoted: with colon"\r\n---\r\n\r\n# Body\r\n';
+
+  const { frontMatter, body } = splitFrontMatter(file);
+
+  assert.deepEqual(frontMatter.fields, { title: "CRLF title", description: "Quoted: with colon" });
+  assert.equal(body, "# Body\r\n");
+  assert.equal(
+    updateFrontMatter(frontMatter, { title: "New: title", slug: "true" }),
+    '---\r\ntitle: "New: title"\r\ndescription: "Quoted: with colon"\r\nslug: "true"\r\n---\r\n\r\n'
+  );
+});
+
+test("without a closing line or a YAML key there is no front matter", () => {
+  for (const file of ["---\ntitle: No close\n\n# Body\n", "---\n\nThematic break\n\n---\n\nText"]) {
+    assert.deepEqual(splitFrontMatter(file), { body: file });
+  }
+});
+
+test("quoted, block and commented scalars are read; collections are skipped", () => {
+  const file = [
+    "---",
+    "title: 'It''s single'",
+    'description: "Escaped \\"quote\\" \\u00e9"',
+    "tags: [a, b]",
+    "list:",
+    "  - x",
+    "summary: >",
+    "  Folded",
+    "  text",
+    "",
+    "  next",
+    "plain: value # comment",
+    "---",
+    "Body",
+  ].join("\n");
+
+  const { frontMatter, body } = splitFrontMatter(file);
+
+  assert.deepEqual(frontMatter.fields, {
+    title: "It's single",
+    description: 'Escaped "quote" é',
+    summary: "Folded text\nnext",
+    plain: "value",
+  });
+  assert.equal(body, "Body");
+  // Quoting style and every other line are kept
+  assert.equal(
+    updateFrontMatter(frontMatter, { title: "It's new", summary: "Short" }),
+    [
+      "---",
+      "title: 'It''s new'",
+      'description: "Escaped \\"quote\\" \\u00e9"',
+      "tags: [a, b]",
+      "list:",
+      "  - x",
+      "summary: Short",
+      "plain: value # comment",
+      "---",
+      "",
+    ].join("\n")
+  );
+});
+
+function createProvider() {
+  return createMockProvider({
+    mode: "scripted",
+    model: "gpt-4.1",
+    responses: { content: "Rewritten body.", title: "New title", description: "New description" },
+  });
+}
+
+test("extractTitleFromMarkdown ignores front matter", () => {
+  assert.equal(extractTitleFromMarkdown(FILE), "Heading title");
+});
+
+test("frontMatter: false takes the title from the content as before", async () => {
+  const provider = createProvider();
+  const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider, frontMatter: false });
+
+  await rewriter.rewriteOne(FILE);
+
+  const titleCall = provider.calls.find((call) => call.kind === "title");
+  assert.match(titleCall.request.messages.at(-1).content, /^Current title: Heading title$/m);
+});
+
+test("front matter supplies the title by default", async () => {
+  const provider = createProvider();
+  const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider });
+
+  await rewriter.rewriteOne(FILE);
+
+  const titleCall = provider.calls.find((call) => call.kind === "title");
+  assert.match(titleCall.request.messages.at(-1).content, /^Current title: Front matter title$/m);
+});
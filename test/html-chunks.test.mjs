@@ -0,0 +1,69 @@
+/**
+ * Splitting HTML into top-level blocks and chunks of whole blocks.
+ * Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitIntoHtmlChunks } from "../lib/index.js";
+import { splitHtmlBlocks } from "../lib/utils.js";
+
+test("nested elements stay inside their top-level block", () => {
+  assert.deepEqual(splitHtmlBlocks("<div><p>One</p><div><p>Two</p></div></div>\n<p>Three</p>"), [
+    "<div><p>One</p><div><p>Two</p></div></div>",
+    "<p>Three</p>",
+  ]);
+  assert.deepEqual(splitHtmlBlocks("<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul>"), [
+    "<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul>",
+  ]);
+});
+
+test("tables and preformatted code are one block each", () => {
+  assert.deepEqual(
+    splitHtmlBlocks("<table><tr><td><p>A</p></td></tr><tr><td>B</td></tr></table><p>After</p>"),
+    ["<table><tr><td><p>A</p></td></tr><tr><td>B</td></tr></table>", "<p>After</p>"]
+  );
+  assert.deepEqual(splitHtmlBlocks("<pre><code>line 1\n\nline 2</code></pre><p>x</p>"), [
+    "<pre><code>line 1\n\nline 2</code></pre>",
+    "<p>x</p>",
+  ]);
+});
+
+test("void elements, comments and script text do not open blocks", () => {
+  assert.deepEqual(splitHtmlBlocks("<p>Text<br>more<img src=x></p><hr><!-- a <p> --><p>Last</p>"), [
+    "<p>Text<br>more<img src=x></p>",
+    "<hr>",
+    "<!-- a <p> -->",
+    "<p>Last</p>",
+  ]);
+  assert.deepEqual(splitHtmlBlocks("<script>if (a < b) { write('</p>'); }</script><p>After</p>"), [
+    "<script>if (a < b) { write('</p>'); }</script>",
+    "<p>After</p>",
+  ]);
+});
+
+test("a block element closes an open paragraph", () => {
+  assert.deepEqual(splitHtmlBlocks("<p>Open paragraph<div>Block</div>"), [
+    "<p>Open paragraph",
+    "<div>Block</div>",
+  ]);
+});
+
+test("chunks keep tables whole and carry the heading above them", () => {
+  const table = `<table>${"<tr><td>Bonus</td><td>Wagering terms apply</td></tr>".repeat(8)}</table>`;
+  const html = [
+    "<h2>Bonuses</h2>",
+    ...Array.from({ length: 6 }, (_, i) => `<p>Paragraph ${i} ${"word ".repeat(40)}</p>`),
+    table,
+    ...Array.from({ length: 6 }, (_, i) => `<p>More ${i} ${"word ".repeat(40)}</p>`),
+  ].join("\n");
+
+  const chunks = splitIntoHtmlChunks(html, 300);
+
+  assert.ok(chunks.length > 2, `${chunks.length} chunks`);
+  assert.equal(chunks.map((chunk) => chunk.content).join("\n"), html);
+  assert.equal(chunks.filter((chunk) => chunk.content.includes(table)).length, 1);
+  for (const chunk of chunks.slice(1)) {
+    assert.equal(chunk.context, "<h2>Bonuses</h2>");
+  }
+});
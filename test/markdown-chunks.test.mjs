@@ -0,0 +1,70 @@
+/**
+ * Splitting Markdown into blocks and chunks of whole blocks.
+ * Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitIntoMarkdownChunks, splitMarkdownBlocks } from "../lib/index.js";
+
+test("code fences are one block, blank lines and headings inside included", () => {
+  assert.deepEqual(
+    splitMarkdownBlocks("# Title\n\nIntro\nin two lines.\n\n```js\nconst a = 1;\n\nconst b = 2;\n```\n\nAfter."),
+    ["# Title", "Intro\nin two lines.", "```js\nconst a = 1;\n\nconst b = 2;\n```", "After."]
+  );
+  assert.deepEqual(splitMarkdownBlocks("Para\n\n~~~\n# not a heading\n~~~"), [
+    "Para",
+    "~~~\n# not a heading\n~~~",
+  ]);
+  // An unclosed fence runs to the end
+  assert.deepEqual(splitMarkdownBlocks("```\ncode\n\nmore code"), ["```\ncode\n\nmore code"]);
+});
+
+test("lists keep nested items and loose paragraphs", () => {
+  assert.deepEqual(
+    splitMarkdownBlocks("- One\n  continued\n- Two\n  - Nested\n\n    Loose in item\n- Three\n\nAfter."),
+    ["- One\n  continued\n- Two\n  - Nested\n\n    Loose in item\n- Three", "After."]
+  );
+  assert.deepEqual(splitMarkdownBlocks("1. First\n2. Second\n\n   Still second\n3. Third"), [
+    "1. First\n2. Second\n\n   Still second\n3. Third",
+  ]);
+});
+
+test("tables and blockquotes are one block each", () => {
+  assert.deepEqual(splitMarkdownBlocks("| A | B |\n|---|---|\n| 1 | 2 |\n| 3 | 4 |\nNext"), [
+    "| A | B |\n|---|---|\n| 1 | 2 |\n| 3 | 4 |",
+    "Next",
+  ]);
+  assert.deepEqual(splitMarkdownBlocks("> Quote\n> more\n>\n> second\n\nText"), [
+    "> Quote\n> more\n>\n> second",
+    "Text",
+  ]);
+});
+
+test("setext headings and thematic breaks", () => {
+  assert.deepEqual(splitMarkdownBlocks("Heading\n=======\nPara\n\n---\n\nEnd"), [
+    "Heading\n=======",
+    "Para",
+    "---",
+    "End",
+  ]);
+});
+
+test("chunks never cut a code fence and carry the heading above them", () => {
+  const fence = "```python\n" + "print('casino bonus')\n".repeat(20) + "```";
+  const markdown = [
+    "## Setup",
+    ...Array.from({ length: 6 }, (_, i) => `Paragraph ${i}${" word".repeat(40)}`),
+    fence,
+    ...Array.from({ length: 6 }, (_, i) => `More ${i}${" word".repeat(40)}`),
+  ].join("\n\n");
+
+  const chunks = splitIntoMarkdownChunks(markdown, 300);
+
+  assert.ok(chunks.length > 2, `${chunks.length} chunks`);
+  assert.equal(chunks.map((chunk) => chunk.content).join("\n\n"), markdown);
+  assert.equal(chunks.filter((chunk) => chunk.content.includes(fence)).length, 1);
+  for (const chunk of chunks.slice(1)) {
+    assert.equal(chunk.context, "## Setup");
+  }
+});
@@ -0,0 +1,165 @@
+/**
+ * OpenAI Batch API flow (upload, create, poll, download, map results)
+ * against a local stand-in. Run with `npm test` (builds lib/ first).
+ */
+
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { ContentRewriter } from "../lib/index.js";
+
+const INPUTS = [
+  {
+    id: "first",
+    content: '<p>Play at Acme Pay casino. <a href="https://example.com/bonus">Claim the bonus</a> today.</p>',
+    title: "Acme Pay casino bonuses",
+    description: "Everything about casino bonuses.",
+  },
+  { id: "second", content: "<p>A second article.</p>", title: "Second", description: "Second article." },
+];
+
+/** Answer for a request line of the uploaded file */
+function answerFor(line) {
+  const kind = line.custom_id.split("/")[2];
+  if (kind === "title") {
+    // Drops the protected term
+    return "Casino bonuses for new players";
+  }
+  if (kind === "description") {
+    return "A guide to casino bonuses.";
+  }
+  // The article with its placeholders kept
+  const article = line.body.messages.at(-1).content.match(/<p>[\s\S]*<\/p>/)[0];
+  return article.replace("Play at", "Enjoy");
+}
+
+function outputLine(line) {
+  if (line.custom_id.startsWith("1/") && line.custom_id.includes("/content/")) {
+    const error = { code: "server_error", message: "Server overloaded" };
+    return { file: "error", line: { custom_id: line.custom_id, response: null, error } };
+  }
+  return {
+    file: "output",
+    line: {
+      custom_id: line.custom_id,
+      response: {
+        status_code: 200,
+        body: {
+          choices: [{ message: { content: answerFor(line) } }],
+          usage: { prompt_tokens: 100, completion_tokens: 20 },
+        },
+      },
+      error: null,
+    },
+  };
+}
+
+let server;
+let baseUrl;
+/** Request lines of the uploaded batch file */
+let uploaded = [];
+/** Batch creation requests */
+const created = [];
+let polls = 0;
+
+function json(res, body) {
+  res.writeHead(200, { "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function jsonl(res, lines) {
+  res.writeHead(200, { "content-type": "application/jsonl" });
+  res.end(lines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+}
+
+before(async () => {
+  server = createServer(async (req, res) => {
+    let raw = "";
+    for await (const part of req) {
+      raw += part;
+    }
+
+    if (req.method === "POST" && req.url === "/v1/files") {
+      // Multipart upload: the JSONL lines are the ones that start with a custom_id
+      uploaded = raw
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('{"custom_id"'))
+        .map((line) => JSON.parse(line));
+      json(res, { id: "file-in", object: "file", purpose: "batch", filename: "rewrite-batch.jsonl" });
+    } else if (req.method === "POST" && req.url === "/v1/batches") {
+      created.push(JSON.parse(raw));
+      json(res, { id: "batch-1", object: "batch", status: "validating" });
+    } else if (req.method === "GET" && req.url === "/v1/batches/batch-1") {
+      polls++;
+      const done = polls > 1;
+      json(res, {
+        id: "batch-1",
+        object: "batch",
+        status: done ? "completed" : "in_progress",
+        output_file_id: done ? "file-out" : null,
+        error_file_id: done ? "file-err" : null,
+        request_counts: { total: uploaded.length, completed: done ? uploaded.length - 1 : 0, failed: done ? 1 : 0 },
+      });
+    } else if (req.method === "GET" && req.url === "/v1/files/file-out/content") {
+      jsonl(res, uploaded.map(outputLine).filter(({ file }) => file === "output").map(({ line }) => line));
+    } else if (req.method === "GET" && req.url === "/v1/files/file-err/content") {
+      jsonl(res, uploaded.map(outputLine).filter(({ file }) => file === "error").map(({ line }) => line));
+    } else {
+      res.writeHead(404, { "content-type": "application/json" });
+      res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${req.url}` } }));
+    }
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}/v1`;
+});
+
+after(() => new Promise((resolve) => server.close(resolve)));
+
+test("a batch runs from upload to mapped results, with per-item failures and reports", async () => {
+  const rewriter = new ContentRewriter({
+    provider: "openai",
+    apiKey: "test-key",
+    baseUrl,
+    protectLinks: true,
+    protectedTerms: ["Acme Pay"],
+  });
+
+  const polled = [];
+  const [first, second] = await rewriter.rewriteBatch(INPUTS, {
+    pollIntervalMs: 10,
+    onPoll: (status) => polled.push(status.state),
+  });
+
+  // Upload: content, title and description per input, links and terms shielded
+  assert.equal(uploaded.length, 6);
+  assert.deepEqual(
+    uploaded.map((line) => line.custom_id),
+    ["0/0/content/0", "0/0/title/0", "0/0/description/0", "1/0/content/0", "1/0/title/0", "1/0/description/0"]
+  );
+  assert.ok(uploaded.every((line) => line.url === "/v1/chat/completions"));
+  const sent = JSON.stringify(uploaded);
+  assert.doesNotMatch(sent, /Acme Pay|example\.com/);
+  const titleRequest = uploaded.find((line) => line.custom_id === "0/0/title/0");
+  assert.match(titleRequest.body.messages[0].content, /Keep every placeholder exactly as written/);
+  assert.equal(created[0].input_file_id, "file-in");
+  assert.deepEqual(polled, ["in_progress", "completed"]);
+
+  // First input: originals restored, links kept, the title's lost term reported
+  assert.equal(first.id, "first");
+  assert.deepEqual(first.errors, []);
+  const [result] = first.results;
+  assert.equal(
+    result.content,
+    '<p>Enjoy Acme Pay casino. <a href="https://example.com/bonus">Claim the bonus</a> today.</p>'
+  );
+  assert.equal(result.links.passed, true);
+  assert.equal(result.terms.passed, false);
+  assert.deepEqual(result.terms.missing, []);
+  assert.deepEqual(result.terms.title.missing, ["Acme Pay"]);
+  assert.ok(result.cost > 0);
+
+  // Second input: its content request failed
+  assert.equal(second.id, "second");
+  assert.deepEqual(second.results, []);
+  assert.deepEqual(second.errors, ["Variant 1: content chunk 1: Server overloaded"]);
+});
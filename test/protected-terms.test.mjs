@@ -0,0 +1,45 @@
+/**
+ * Protected terms in the title and description. Run with `npm test`
+ * (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ContentRewriter, createMockProvider } from "../lib/index.js";
+
+const INPUT = {
+  content: "<p>Casino bonuses explained for new players.</p>",
+  title: "Acme Pay casino bonuses",
+  description: "Everything about casino bonuses.",
+};
+
+test("title and description requests carry the placeholder note and are reported", async () => {
+  const provider = createMockProvider({
+    mode: "scripted",
+    model: "gpt-4.1",
+    responses: {
+      content: "<p>Rewritten content.</p>",
+      // Drops the placeholder
+      title: "Casino bonuses for new players",
+      description: "A guide to casino bonuses.",
+    },
+  });
+  const rewriter = new ContentRewriter({
+    provider: "custom",
+    customProvider: provider,
+    protectedTerms: ["Acme Pay"],
+  });
+
+  const result = await rewriter.rewriteOne(INPUT);
+
+  const titleRequest = provider.calls.find((call) => call.kind === "title").request;
+  assert.match(titleRequest.messages.at(-1).content, /\{\{rw-term-1\}\}/);
+  assert.match(titleRequest.messages[0].content, /Keep every placeholder exactly as written/);
+  const descriptionRequest = provider.calls.find((call) => call.kind === "description").request;
+  assert.doesNotMatch(descriptionRequest.messages[0].content, /placeholder/);
+
+  assert.equal(result.terms.passed, false);
+  assert.deepEqual(result.terms.missing, []);
+  assert.deepEqual(result.terms.title, { passed: false, expected: ["Acme Pay"], missing: ["Acme Pay"] });
+  assert.equal(result.terms.description, undefined);
+});
@@ -0,0 +1,66 @@
+/**
+ * Streaming previews. Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ContentRewriter,
+  createFailoverProvider,
+  createMockProvider,
+  ProviderError,
+} from "../lib/index.js";
+
+const INPUT = {
+  content: "<p>Casino bonuses explained for new players.</p>",
+  title: "Original title",
+  description: "Original description",
+};
+
+/** Streams part of an answer, then loses the connection */
+const brokenProvider = {
+  type: "custom",
+  model: "gpt-4.1",
+  async completeContent(request) {
+    request.onDelta?.("<p>PARTIAL GARBAGE ");
+    throw new ProviderError("Connection reset", "custom");
+  },
+  async completeTitle() {
+    throw new ProviderError("Connection reset", "custom");
+  },
+  async completeDescription() {
+    throw new ProviderError("Connection reset", "custom");
+  },
+};
+
+test("a stream that fails over starts the preview over", async () => {
+  const fallback = createMockProvider({
+    mode: "scripted",
+    model: "gpt-4.1",
+    responses: {
+      content: "<p>Rewritten by the fallback.</p>",
+      title: "New title",
+      description: "New description",
+    },
+  });
+  const rewriter = new ContentRewriter({
+    provider: "custom",
+    customProvider: createFailoverProvider([brokenProvider, fallback]),
+  });
+
+  const previews = [];
+  let final;
+  for await (const update of rewriter.rewriteStream(INPUT)) {
+    if (update.isFinal) {
+      final = update.result;
+    } else if (update.event === "content") {
+      previews.push(update.result.content);
+    }
+  }
+
+  assert.equal(final.content, "<p>Rewritten by the fallback.</p>");
+  const restart = previews.lastIndexOf("");
+  assert.ok(restart > 0, "the preview is cleared after the failed stream");
+  assert.ok(previews.slice(restart).every((preview) => !preview.includes("GARBAGE")));
+  assert.equal(previews.at(-1), "<p>Rewritten by the fallback.</p>");
+});
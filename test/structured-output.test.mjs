@@ -0,0 +1,42 @@
+/**
+ * Structured output (title, description and content in one JSON response).
+ * Run with `npm test` (builds lib/ first).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ContentRewriter, createMockProvider, ProviderError } from "../lib/index.js";
+
+const INPUT = {
+  content: "<p>Claim a $500 welcome bonus at the casino.</p>",
+  title: "Original title",
+  description: "Original description",
+};
+
+test("an invalid structured response reports every attempt made", async () => {
+  const provider = createMockProvider({
+    mode: "scripted",
+    model: "gpt-4.1",
+    responses: {
+      content: [
+        // Valid, but drops the amount: regenerated under the fact policy
+        JSON.stringify({
+          title: "Casino welcome bonus",
+          description: "Claim a welcome bonus at the casino.",
+          html: "<p>Claim a welcome bonus at the casino.</p>",
+        }),
+        "not json",
+        "still not json",
+      ],
+    },
+  });
+  const rewriter = new ContentRewriter({ provider: "custom", customProvider: provider, factPolicy: {} });
+
+  await assert.rejects(rewriter.rewrite(INPUT, { structuredOutput: true }), (error) => {
+    assert.ok(error instanceof ProviderError);
+    assert.equal(error.details.code, "invalid_structured_output");
+    assert.match(error.message, /after 3 attempts/);
+    return true;
+  });
+  assert.equal(provider.calls.length, 3);
+});